@@ -1,6 +1,7 @@
 import { AhkVersion } from '@zero-plusplus/autohotkey-utilities';
 import { count } from 'underscore.string';
 import * as vscode from 'vscode';
+import { DebugProtocol } from 'vscode-debugprotocol';
 import * as dbgp from './dbgpSession';
 import { lastIndexOf } from './util/stringUtils';
 import { splitVariablePath } from './util/util';
@@ -10,7 +11,7 @@ export interface CompletionItemProvider extends vscode.CompletionItemProvider {
   session: dbgp.Session | null;
 }
 
-const createKind = (property: dbgp.Property): vscode.CompletionItemKind => {
+export const createKind = (property: dbgp.Property): vscode.CompletionItemKind => {
   let kind: vscode.CompletionItemKind = property.fullName.includes('.')
     ? vscode.CompletionItemKind.Field
     : vscode.CompletionItemKind.Variable;
@@ -53,6 +54,12 @@ export const fixPosition = (position: vscode.Position, offset: number): vscode.P
 };
 export const findWord = (ahkVersion: AhkVersion, document: vscode.TextDocument, position: vscode.Position, offset = 0): string => {
   const targetText = document.lineAt(position).text.slice(0, fixPosition(position, offset).character);
+  return findWordInText(ahkVersion, targetText);
+};
+/**
+ * Find the variable path that ends at the end of the text, e.g. `obj.field` of `x := obj.field`.
+ */
+export const findWordInText = (ahkVersion: AhkVersion, targetText: string): string => {
   const chars = targetText.split('').reverse();
   const openBracketIndex = lastIndexOf(targetText, 2 <= ahkVersion.mejor ? /(?<=\[\s*)("|')/u : /(?<=\[\s*)(")/u);
   const closeBracketIndex = lastIndexOf(targetText, 2 <= ahkVersion.mejor ? /("|')\s*(?=\])/u : /"\s*(?=\])/u);
@@ -143,6 +150,68 @@ export const findWord = (ahkVersion: AhkVersion, document: vscode.TextDocument,
   }
   return result.reverse().join('');
 };
+export const isSuggestibleProperty = (property: dbgp.Property): boolean => {
+  if (property.name === '<enum>') {
+    return false;
+  }
+  if ((/\d+/u).test(property.name)) {
+    return false;
+  }
+  if (property.isIndexKey) {
+    return false;
+  }
+  const isIndexKeyByObject = (/[\w]+\(\d+\)/ui).test(property.name);
+  if (isIndexKeyByObject) {
+    return false;
+  }
+  return true;
+};
+
+// The operators of ConditionParser that are written as words
+const binaryOperators = [ 'is', 'is not', 'in', 'not in', 'has', 'has not', 'contains', 'not contains' ];
+const prefixOperators = [ 'countof' ];
+/**
+ * Create the completion items of the debug console and the breakpoint condition from the text before the cursor.
+ * The `start` of each item is the 0-base index in the text.
+ */
+export const createDebugCompletionItems = async(session: dbgp.Session, text: string, metaVariableNames: string[]): Promise<DebugProtocol.CompletionItem[]> => {
+  // e.g. `{hitC`
+  const metaVariableMatch = text.match(/\{(?<name>[\w]*)$/u);
+  if (metaVariableMatch?.groups) {
+    const start = text.length - metaVariableMatch[0].length;
+    return metaVariableNames.map((name) => ({ label: `{${name}}`, text: `{${name}}`, type: 'variable', start, length: metaVariableMatch[0].length }));
+  }
+
+  const word = findWordInText(session.ahkVersion, text);
+  const properties = await session.fetchSuggestList(word);
+  const completionItems: DebugProtocol.CompletionItem[] = properties
+    .filter(isSuggestibleProperty)
+    // Keys that need bracket notation are left to the completion in the editor
+    .filter((property) => !property.name.startsWith('['))
+    .map((property) => {
+      const label = property.name.replace(/<|>/gu, '');
+      return {
+        label,
+        type: vscode.CompletionItemKind[createKind(property)].toLowerCase() as DebugProtocol.CompletionItemType,
+        detail: createDetail(property),
+        sortText: `@:${property.name.startsWith('__') ? 1 : 0}:${label}`,
+      };
+    });
+
+  if (word.includes('.')) {
+    return completionItems;
+  }
+
+  const textBeforeWord = text.slice(0, text.length - word.length);
+  const operators = (/[^\s=<>!~]\s+$/u).test(textBeforeWord) && !(/(?:^|\s)(?:is|in|has|contains|countof|not)\s+$/ui).test(textBeforeWord)
+    ? binaryOperators
+    : prefixOperators;
+  completionItems.push(...operators.map((operator): DebugProtocol.CompletionItem => ({ label: operator, type: 'keyword', sortText: `@:2:${operator}` })));
+  completionItems.push(...metaVariableNames.map((name): DebugProtocol.CompletionItem => {
+    return { label: `{${name}}`, type: 'variable', sortText: `@:3:${name}` };
+  }));
+  return completionItems;
+};
 export const completionItemProvider = {
   useIntelliSenseInDebugging: true,
   session: null,
@@ -170,22 +239,7 @@ export const completionItemProvider = {
     const triggerCharacter = context.triggerCharacter ?? getPrevText(1);
 
     const properties = await this.session.fetchSuggestList(word);
-    const fixedProperties = properties.filter((property) => {
-      if (property.name === '<enum>') {
-        return false;
-      }
-      if ((/\d+/u).test(property.name)) {
-        return false;
-      }
-      if (property.isIndexKey) {
-        return false;
-      }
-      const isIndexKeyByObject = (/[\w]+\(\d+\)/ui).test(property.name);
-      if (isIndexKeyByObject) {
-        return false;
-      }
-      return true;
-    });
+    const fixedProperties = properties.filter(isSuggestibleProperty);
 
     const completionItems = fixedProperties.map((property): vscode.CompletionItem => {
       const completionItem = new vscode.CompletionItem(property.name.replace(/<|>/gu, ''));
@@ -0,0 +1,171 @@
+import * as vscode from 'vscode';
+import { StackFrameSnapshot, StopSnapshot, StopSnapshotSummary, VariableSnapshot, findChangedVariablePaths, formatStopSnapshot } from './util/StopHistory';
+
+const viewId = 'vscode-autohotkey-debug.stopHistory';
+const scheme = 'ahk-stop-history';
+
+type StopHistoryItem =
+  | { kind: 'stop'; summary: StopSnapshotSummary }
+  | { kind: 'callStack'; snapshot: StopSnapshot }
+  | { kind: 'stackFrame'; stackFrame: StackFrameSnapshot }
+  | { kind: 'category'; snapshot: StopSnapshot; name: string; variables: VariableSnapshot[]; changedPaths: Set<string> }
+  | { kind: 'variable'; variable: VariableSnapshot; variablePath: string; changedPaths: Set<string> };
+
+const getStopHistorySession = (): vscode.DebugSession | undefined => {
+  const debugSession = vscode.debug.activeDebugSession;
+  return debugSession?.type === 'autohotkey' ? debugSession : undefined;
+};
+const fetchSnapshot = async(id: number): Promise<{ snapshot: StopSnapshot; latest?: StopSnapshot } | undefined> => {
+  const debugSession = getStopHistorySession();
+  if (!debugSession) {
+    return undefined;
+  }
+  return await debugSession.customRequest('stopHistory', { id }) as { snapshot: StopSnapshot; latest?: StopSnapshot };
+};
+const createSnapshotUri = (id: number | 'latest'): vscode.Uri => {
+  return vscode.Uri.parse(`${scheme}:/stop-${id}.txt`);
+};
+
+class StopHistoryTreeDataProvider implements vscode.TreeDataProvider<StopHistoryItem> {
+  private readonly onDidChangeTreeDataEmitter = new vscode.EventEmitter<StopHistoryItem | undefined>();
+  public readonly onDidChangeTreeData = this.onDidChangeTreeDataEmitter.event;
+  public refresh(): void {
+    this.onDidChangeTreeDataEmitter.fire(undefined);
+  }
+  public getTreeItem(element: StopHistoryItem): vscode.TreeItem {
+    switch (element.kind) {
+      case 'stop': {
+        const { id, reason, time, stackFrame } = element.summary;
+        const item = new vscode.TreeItem(`#${id} ${reason}`, vscode.TreeItemCollapsibleState.Collapsed);
+        item.description = stackFrame ? `${stackFrame.name}:${stackFrame.line}` : '';
+        item.tooltip = time;
+        item.contextValue = 'stop';
+        return item;
+      }
+      case 'callStack': return new vscode.TreeItem('Call Stack', vscode.TreeItemCollapsibleState.Collapsed);
+      case 'stackFrame': {
+        const { name, path, line } = element.stackFrame;
+        const item = new vscode.TreeItem(name, vscode.TreeItemCollapsibleState.None);
+        item.description = `${path}:${line}`;
+        if (path) {
+          item.command = {
+            title: 'Open',
+            command: 'vscode.open',
+            arguments: [ vscode.Uri.file(path), { selection: new vscode.Range(line - 1, 0, line - 1, 0) } ],
+          };
+        }
+        return item;
+      }
+      case 'category': return new vscode.TreeItem(element.name, vscode.TreeItemCollapsibleState.Collapsed);
+      case 'variable': {
+        const { variable, variablePath, changedPaths } = element;
+        const isChanged = changedPaths.has(variablePath);
+        const item = new vscode.TreeItem(variable.name, variable.children ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None);
+        item.description = variable.value;
+        item.tooltip = isChanged ? `${variable.value}\n(Changed from the current stop)` : variable.value;
+        if (isChanged) {
+          item.iconPath = new vscode.ThemeIcon('diff-modified');
+        }
+        return item;
+      }
+      default: break;
+    }
+    throw Error('Unknown item');
+  }
+  public async getChildren(element?: StopHistoryItem): Promise<StopHistoryItem[]> {
+    const debugSession = getStopHistorySession();
+    if (!debugSession) {
+      return [];
+    }
+
+    if (!element) {
+      const { stops } = await debugSession.customRequest('stopHistory') as { stops: StopSnapshotSummary[] };
+      return stops.map((summary) => ({ kind: 'stop', summary }));
+    }
+
+    switch (element.kind) {
+      case 'stop': {
+        const result = await fetchSnapshot(element.summary.id).catch(() => undefined);
+        if (!result) {
+          return [];
+        }
+
+        const { snapshot, latest } = result;
+        const changedPaths = latest && latest.id !== snapshot.id ? findChangedVariablePaths(snapshot, latest) : new Set<string>();
+        return [
+          { kind: 'callStack', snapshot },
+          ...snapshot.categories.map(({ name, variables }): StopHistoryItem => ({ kind: 'category', snapshot, name, variables, changedPaths })),
+        ];
+      }
+      case 'callStack': return element.snapshot.stackFrames.map((stackFrame) => ({ kind: 'stackFrame', stackFrame }));
+      case 'category': return element.variables.map((variable) => ({ kind: 'variable', variable, variablePath: `${element.name}/${variable.name}`, changedPaths: element.changedPaths }));
+      case 'variable': {
+        const { variable, variablePath, changedPaths } = element;
+        return (variable.children ?? []).map((child) => ({ kind: 'variable', variable: child, variablePath: `${variablePath}/${child.name}`, changedPaths }));
+      }
+      default: break;
+    }
+    return [];
+  }
+}
+
+// The documents of the past stops never change, but the one of the latest stop changes at each stop
+class StopHistoryContentProvider implements vscode.TextDocumentContentProvider {
+  private readonly onDidChangeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  public readonly onDidChange = this.onDidChangeEmitter.event;
+  public refreshLatest(): void {
+    this.onDidChangeEmitter.fire(createSnapshotUri('latest'));
+  }
+  public async provideTextDocumentContent(uri: vscode.Uri): Promise<string> {
+    const match = uri.path.match(/stop-(?<id>\d+|latest)\.txt$/u);
+    const debugSession = getStopHistorySession();
+    if (!match?.groups || !debugSession) {
+      return '';
+    }
+
+    if (match.groups.id === 'latest') {
+      const { stops } = await debugSession.customRequest('stopHistory') as { stops: StopSnapshotSummary[] };
+      if (stops.length === 0) {
+        return '';
+      }
+      const result = await fetchSnapshot(stops[0].id);
+      return result ? formatStopSnapshot(result.snapshot) : '';
+    }
+
+    const result = await fetchSnapshot(Number(match.groups.id));
+    return result ? formatStopSnapshot(result.snapshot) : '';
+  }
+}
+
+/**
+ * The view that lists the previous stops of the current session. Each stop can be compared with the current one in the diff editor.
+ */
+export const registerStopHistoryView = (context: vscode.ExtensionContext): void => {
+  const treeDataProvider = new StopHistoryTreeDataProvider();
+  context.subscriptions.push(vscode.window.registerTreeDataProvider(viewId, treeDataProvider));
+
+  // Snapshots are rendered as read-only documents
+  const contentProvider = new StopHistoryContentProvider();
+  context.subscriptions.push(vscode.workspace.registerTextDocumentContentProvider(scheme, contentProvider));
+
+  context.subscriptions.push(vscode.debug.onDidReceiveDebugSessionCustomEvent((event) => {
+    if (event.session.type === 'autohotkey' && event.event === 'stopHistoryUpdated') {
+      treeDataProvider.refresh();
+      contentProvider.refreshLatest();
+    }
+  }));
+  context.subscriptions.push(vscode.debug.onDidTerminateDebugSession(() => treeDataProvider.refresh()));
+  context.subscriptions.push(vscode.debug.onDidChangeActiveDebugSession(() => treeDataProvider.refresh()));
+
+  context.subscriptions.push(vscode.commands.registerCommand('vscode-autohotkey-debug.stopHistory.refresh', () => {
+    treeDataProvider.refresh();
+  }));
+  context.subscriptions.push(vscode.commands.registerCommand('vscode-autohotkey-debug.stopHistory.compareWithCurrent', async(item?: StopHistoryItem): Promise<void> => {
+    if (item?.kind !== 'stop') {
+      return;
+    }
+
+    const { id, reason } = item.summary;
+    await vscode.commands.executeCommand('vscode.diff', createSnapshotUri(id), createSnapshotUri('latest'), `Stop #${id} (${reason}) ↔ Current`);
+  }));
+};
@@ -4,9 +4,14 @@ import { stat } from 'fs';
 
 import * as vscode from 'vscode';
 import {
+  CapabilitiesEvent,
+  Event,
   InitializedEvent,
+  InvalidatedEvent,
   LoggingDebugSession,
   OutputEvent,
+  ProgressEndEvent,
+  ProgressStartEvent,
   StoppedEvent,
   TerminatedEvent,
   Thread,
@@ -16,7 +21,7 @@ import { DebugProtocol } from 'vscode-debugprotocol';
 import { URI } from 'vscode-uri';
 import { sync as pathExistsSync } from 'path-exists';
 import AsyncLock from 'async-lock';
-import { chunk, range } from 'lodash';
+import { chunk, range, uniqBy } from 'lodash';
 import LazyPromise from 'lazy-promise';
 import { ImplicitLibraryPathExtractor, IncludePathExtractor } from '@zero-plusplus/autohotkey-utilities';
 import {
@@ -30,14 +35,25 @@ import { ConditionalEvaluator } from './util/ConditionEvaluator';
 import { toFixed } from './util/numberUtils';
 import { equalsIgnoreCase } from './util/stringUtils';
 import { TraceLogger } from './util/TraceLogger';
-import { completionItemProvider } from './CompletionItemProvider';
+import { StopHistory, StopSnapshot, createVariableSnapshot } from './util/StopHistory';
+import { ValueChangeTracker, annotateChangedValue } from './util/ValueChangeTracker';
+import { VariableFormatter } from './util/VariableFormatter';
+import { DataBreakpointAdvancedData, DataBreakpointChange, DataBreakpointManager, DataBreakpointTarget, createDataId, parseDataId } from './util/DataBreakpointManager';
+import { CancellationError, CancellationToken, CancellationTokenSource, raceCancellation, throwIfCancelled } from './util/CancellationToken';
+import { ProtocolRecorder, ProtocolReplayer } from './util/ProtocolRecorder';
+import { completionItemProvider, createDebugCompletionItems } from './CompletionItemProvider';
 import * as dbgp from './dbgpSession';
 import { AutoHotkeyLauncher, AutoHotkeyProcess } from './util/AutoHotkeyLuncher';
-import { isPrimitive, now, timeoutPromise } from './util/util';
+import { isPrimitive, joinVariablePathArray, now, splitVariablePath, timeoutPromise } from './util/util';
+import { FunctionDefinition, findFunctionDefinitions } from './util/findFunctionDefinitions';
+import { findStepInTargets } from './util/findStepInTargets';
+import { findBreakpointLocations } from './util/findBreakpointLocations';
+import { RuntimeError, formatRuntimeError, parseRuntimeError } from './util/parseRuntimeError';
+import { ExpressionEvaluator, formatExpressionValue } from './util/ExpressionEvaluator';
 import { isNumber } from 'ts-predicates';
 import matcher from 'matcher';
 import { Categories, Category, MetaVariable, MetaVariableValue, MetaVariableValueMap, Scope, StackFrames, Variable, VariableManager, escapeAhk, formatProperty } from './util/VariableManager';
-import { CategoryData } from './extension';
+import { CategoryData, VariableFormatterData } from './extension';
 import { version as debuggerAdapterVersion } from '../package.json';
 
 export type AnnounceLevel = boolean | 'error' | 'detail';
@@ -54,6 +70,8 @@ export interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArgum
   hostname: string;
   port: number;
   maxChildren: number;
+  commandTimeout: number;
+  deepCommandTimeout: number;
   usePerfTips: false | {
     fontColor: string;
     fontStyle: string;
@@ -75,49 +93,129 @@ export interface LaunchRequestArguments extends DebugProtocol.LaunchRequestArgum
   useLoadedScripts: false | {
     scanImplicitLibrary: boolean;
   };
+  useStopHistory: false | {
+    limit: number;
+    depth: number;
+  };
   openFileOnExit: string;
+  valueFormat: 'decimal' | 'hex';
   trace: boolean;
+  recordProtocol: false | string;
+  replayProtocol?: string;
   skipFunctions?: string[];
   skipFiles?: string[];
   variableCategories?: CategoryData[];
+  variableFormatters?: VariableFormatterData[];
   // The following is not a configuration, but is set to pass data to the debug adapter.
   cancelReason?: string;
   extensionContext: vscode.ExtensionContext;
 }
 
 type LogCategory = 'console' | 'stdout' | 'stderr';
-type StopReason = 'step' | 'breakpoint' | 'hidden breakpoint' | 'pause';
+type StopReason = 'step' | 'breakpoint' | 'hidden breakpoint' | 'function breakpoint' | 'data breakpoint' | 'pause' | 'exception';
+type ExceptionInfo = DebugProtocol.ExceptionInfoResponse['body'];
+const assignableValueMessage = 'Only primitive values and the names of variables holding them are supported. Objects cannot be assigned, since the debugger of AutoHotkey only accepts primitive values. e.g. "string", 123, 0x123, 1.0e+5, true, otherVariable';
+// The meta variables set by createMetaVariables, excluding the ones for each index such as `callstack1`
+const metaVariableNames = [ 'now', 'hitCount', 'elapsedTime_ns', 'elapsedTime_ms', 'elapsedTime_s', 'thisCallstack', 'callstack', 'callstackNames', 'variableCategories' ];
+// If `id` is specified, the snapshot of the stop is returned with the latest one. Otherwise, the summaries of all stops are returned
+interface StopHistoryArguments {
+  id?: number;
+}
+interface RunToCursorArguments {
+  path: string;
+  line: number;
+}
+interface FullValueArguments {
+  // Reference of the scope or object that contains the variable
+  variablesReference: number;
+  evaluateName: string;
+}
 export const serializePromise = async(promises: Array<Promise<void>>): Promise<void> => {
   await promises.reduce(async(prev, current): Promise<void> => {
     return prev.then(async() => current);
   }, Promise.resolve());
 };
 
+/**
+ * The state of each DBGp connection. Scripts started by `Run` with `/Debug` and AutoHotkey_H threads open their own connection, and each connection is shown as a separate thread.
+ */
+export class DebugThread {
+  public readonly session: dbgp.Session;
+  public readonly breakpointManager: BreakpointManager;
+  public readonly variableManager: VariableManager;
+  public readonly dataBreakpointManager: DataBreakpointManager;
+  public readonly valueChangeTracker = new ValueChangeTracker();
+  public conditionalEvaluator!: ConditionalEvaluator;
+  public expressionEvaluator!: ExpressionEvaluator;
+  public variableFormatter!: VariableFormatter;
+  public name: string;
+  public autoExecuting = false;
+  public pauseRequested = false;
+  public isPaused = false;
+  public prevStackFrames?: StackFrames;
+  public currentStackFrames?: StackFrames;
+  public currentMetaVariableMap?: MetaVariableValueMap;
+  public stackFramesWhenStepOut?: StackFrames;
+  public stackFramesWhenStepOver?: StackFrames;
+  public exceptionBreakpointIds: number[] = [];
+  public currentExceptionInfo?: ExceptionInfo;
+  // The runtime error reported in the output. Set until the break requested for it is processed
+  public runtimeError?: RuntimeError;
+  // The breakpoint set by "Run to Cursor". Cleared when the cursor is reached
+  public runToCursorBreakpoint?: dbgp.Breakpoint;
+  // The function selected by "Step Into Targets", and the location and depth of the line it is called from
+  public stepInTarget?: { name: string; path: string; line: number; depth: number };
+  // Set while `run` is emulated by `step_into` to check the data breakpoints on each line
+  public isEmulatingRun = false;
+  public get id(): number {
+    return this.session.id;
+  }
+  constructor(session: dbgp.Session, breakpointManager: BreakpointManager, variableManager: VariableManager) {
+    this.session = session;
+    this.breakpointManager = breakpointManager;
+    this.variableManager = variableManager;
+    this.dataBreakpointManager = new DataBreakpointManager(session);
+    this.name = `Thread ${session.id}`;
+  }
+}
+
 const asyncLock = new AsyncLock();
 export class AhkDebugSession extends LoggingDebugSession {
-  public session?: dbgp.Session;
   public config!: LaunchRequestArguments;
   private readonly traceLogger: TraceLogger;
-  private autoExecuting = false;
-  private pauseRequested = false;
-  private isPaused = false;
   private isTerminateRequested = false;
+  // The thread of the first connection, i.e. the launched or attached script
+  private mainThread?: DebugThread;
+  private readonly threads = new Map<number, DebugThread>();
+  public get session(): dbgp.Session | undefined {
+    return this.mainThread?.session;
+  }
   private get isClosedSession(): boolean {
-    return this.session!.socketClosed || this.isTerminateRequested;
+    return !this.session || this.session.socketClosed || this.isTerminateRequested;
+  }
+  private isClosedThread(thread: DebugThread): boolean {
+    return thread.session.socketClosed || this.isTerminateRequested;
+  }
+  // Variable references and frame ids are shared by all threads, so any VariableManager can resolve them
+  private get variableManager(): VariableManager | undefined {
+    return this.mainThread?.variableManager;
   }
   private server?: net.Server;
   private ahkProcess?: AutoHotkeyProcess;
+  private protocolRecorder?: ProtocolRecorder;
   private ahkParser!: Parser;
   private readonly metaVaribalesByFrameId = new Map<number, MetaVariableValueMap>();
-  private variableManager?: VariableManager;
   private readonly logObjectsMap = new Map<number, (Variable | Scope | Category | Categories | MetaVariable | undefined)>();
-  private breakpointManager?: BreakpointManager;
-  private conditionalEvaluator!: ConditionalEvaluator;
-  private prevStackFrames?: StackFrames;
-  private currentStackFrames?: StackFrames;
-  private currentMetaVariableMap?: MetaVariableValueMap;
-  private stackFramesWhenStepOut?: StackFrames;
-  private stackFramesWhenStepOver?: StackFrames;
+  private readonly requestedBreakpoints = new Map<string, DebugProtocol.SourceBreakpoint[]>();
+  private requestedFunctionBreakpoints: DebugProtocol.FunctionBreakpoint[] = [];
+  private requestedDataBreakpoints: Array<DataBreakpointTarget & DataBreakpointAdvancedData> = [];
+  private exceptionBreakpointFilters: string[] = [];
+  private readonly gotoTargets = new Map<number, { fileUri: string; line: number }>();
+  private readonly stepInTargets = new Map<number, string>();
+  // Keyed by the sequence number of the request or the id of the progress
+  private readonly cancellationTokenSources = new Map<number | string, CancellationTokenSource>();
+  private supportsProgressReporting = false;
+  private stopHistory?: StopHistory;
   private readonly perfTipsDecorationTypes: vscode.TextEditorDecorationType[] = [];
   private readonly loadedSources: string[] = [];
   private errorMessage = '';
@@ -126,6 +224,8 @@ export class AhkDebugSession extends LoggingDebugSession {
   private raisedCriticalError?: boolean;
   // The warning message is processed earlier than the server initialization, so it needs to be delayed.
   private readonly delayedWarningMessages: string[] = [];
+  // Set while restarting. The hit counts of the breakpoints of the script before the restart are carried over to the next connection
+  private mainThreadBeforeRestart?: DebugThread;
   constructor() {
     super('autohotkey-debug.txt');
 
@@ -137,36 +237,73 @@ export class AhkDebugSession extends LoggingDebugSession {
     this.setDebuggerPathFormat('uri');
   }
   protected initializeRequest(response: DebugProtocol.InitializeResponse, args: DebugProtocol.InitializeRequestArguments): void {
+    this.supportsProgressReporting = args.supportsProgressReporting ?? false;
     response.body = {
+      supportsBreakpointLocationsRequest: true,
+      supportsCancelRequest: true,
+      supportsCompletionsRequest: true,
       supportsConditionalBreakpoints: true,
       supportsConfigurationDoneRequest: true,
+      supportsDataBreakpoints: true,
       supportsEvaluateForHovers: true,
+      supportsExceptionInfoRequest: true,
+      supportsFunctionBreakpoints: true,
+      supportsGotoTargetsRequest: true,
+      exceptionBreakpointFilters: [
+        {
+          filter: 'uncaught',
+          label: 'Uncaught Exceptions',
+          description: 'Break when an exception is thrown that is not caught by `try`.',
+          default: false,
+        },
+        {
+          filter: 'caught',
+          label: 'Caught Exceptions',
+          description: 'Break when an exception is thrown, even if it is caught by `try`.',
+          default: false,
+        },
+      ],
       supportsHitConditionalBreakpoints: true,
       supportsLoadedSourcesRequest: true,
       supportsLogPoints: true,
+      supportsSetExpression: true,
       supportsSetVariable: true,
+      supportsStepInTargetsRequest: true,
+      supportsValueFormattingOptions: true,
       supportTerminateDebuggee: true,
     };
 
     this.sendResponse(response);
   }
+  protected cancelRequest(response: DebugProtocol.CancelResponse, args: DebugProtocol.CancelArguments, request?: DebugProtocol.Request): void {
+    this.traceLogger.log('cancelRequest');
+    const id = args.progressId ?? args.requestId;
+    if (typeof id !== 'undefined') {
+      this.cancellationTokenSources.get(id)?.cancel();
+    }
+    this.sendResponse(response);
+  }
   protected async disconnectRequest(response: DebugProtocol.DisconnectResponse, args: DebugProtocol.DisconnectArguments, request?: DebugProtocol.Request): Promise<void> {
     this.traceLogger.log('disconnectRequest');
     this.clearPerfTipsDecorations();
 
-    if (this.session?.socketWritable) {
+    for await (const { session } of this.threads.values()) {
+      if (!session.socketWritable) {
+        continue;
+      }
+
       if (args.restart && this.config.request === 'attach') {
-        await timeoutPromise(this.session.sendDetachCommand(), 500).catch(() => {
+        await timeoutPromise(session.sendDetachCommand(), 500).catch(() => {
           this.ahkProcess?.close();
         });
       }
       else if (args.terminateDebuggee === undefined || args.terminateDebuggee) {
-        await timeoutPromise(this.session.sendStopCommand(), 500).catch(() => {
+        await timeoutPromise(session.sendStopCommand(), 500).catch(() => {
           this.ahkProcess?.close();
         });
       }
       else {
-        await timeoutPromise(this.session.sendDetachCommand(), 500).catch(() => {
+        await timeoutPromise(session.sendDetachCommand(), 500).catch(() => {
           this.ahkProcess?.close();
         });
       }
@@ -191,7 +328,8 @@ export class AhkDebugSession extends LoggingDebugSession {
       }
     }
 
-    await this.session?.close();
+    await Promise.all(Array.from(this.threads.values()).map(async({ session }) => session.close()));
+    await this.protocolRecorder?.close();
     this.server?.close();
     this.isTerminateRequested = true;
 
@@ -208,35 +346,7 @@ export class AhkDebugSession extends LoggingDebugSession {
     this.config = args;
 
     try {
-      this.ahkProcess = new AutoHotkeyLauncher(this.config).launch();
-      this.ahkProcess.event
-        .on('close', (exitCode?: number) => {
-          if (this.isTerminateRequested) {
-            return;
-          }
-          this.traceLogger.log('Autohotkey close');
-
-          if (isNumber(exitCode)) {
-            this.exitCode = exitCode;
-          }
-          this.sendTerminateEvent();
-        })
-        .on('stdout', (message: string) => {
-          const fixedData = this.fixPathOfRuntimeError(message);
-          if (!this.session && !this.config.noDebug) {
-            this.delayedWarningMessages.push(fixedData);
-            return;
-          }
-          this.sendOutputEvent(fixedData);
-        })
-        .on('stderr', (message: string) => {
-          this.errorMessage = this.fixPathOfRuntimeError(message);
-          this.sendOutputEvent(this.errorMessage, 'stderr');
-        })
-        .on('outputdebug', (message: string) => {
-          this.sendOutputDebug(message);
-        });
-      this.sendAnnounce(`${this.ahkProcess.command}`);
+      this.launchAutoHotkey();
       await this.createServer(args);
     }
     catch (error: unknown) {
@@ -246,6 +356,52 @@ export class AhkDebugSession extends LoggingDebugSession {
       return;
     }
 
+    // Restarting is only possible for the launched script, so it is not advertised in initializeRequest
+    this.sendEvent(new CapabilitiesEvent({ supportsRestartRequest: true }));
+    this.sendResponse(response);
+  }
+  /**
+   * Relaunch the script without recreating the debug adapter, so that the hit counts of the breakpoints and the log groups are kept.
+   * The new script connects to the same server, and the breakpoints currently requested by VS Code are registered again when it is initialized.
+   */
+  protected async restartRequest(response: DebugProtocol.RestartResponse, args: DebugProtocol.RestartArguments, request?: DebugProtocol.Request): Promise<void> {
+    this.traceLogger.log('restartRequest');
+    this.clearPerfTipsDecorations();
+
+    const threads = Array.from(this.threads.values());
+    this.mainThreadBeforeRestart = this.mainThread;
+    this.mainThread = undefined;
+    this.threads.clear();
+    // The process is forgotten before the sessions are stopped, since the script may exit as soon as it is stopped, and its exit must not terminate the debugging
+    const ahkProcessBeforeRestart = this.ahkProcess;
+    this.ahkProcess = undefined;
+    for await (const { session } of threads) {
+      if (session.socketWritable) {
+        await timeoutPromise(session.sendStopCommand(), 500).catch(() => undefined);
+      }
+    }
+    await Promise.all(threads.map(async({ session }) => session.close()));
+    ahkProcessBeforeRestart?.close();
+    threads.forEach((thread) => this.sendEvent(new ThreadEvent('exited', thread.id)));
+
+    // Reset the state of the previous run as a new launch starts with
+    this.exitCode = undefined;
+    this.errorMessage = '';
+    this.isTimeout = false;
+    this.raisedCriticalError = undefined;
+    this.metaVaribalesByFrameId.clear();
+    this.logObjectsMap.clear();
+    // The includes may have been edited before the restart
+    this.loadedSources.splice(0);
+    try {
+      this.launchAutoHotkey();
+    }
+    catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'User will never see this message.';
+      this.sendErrorResponse(response, { id: 2, format: errorMessage });
+      this.sendTerminateEvent();
+      return;
+    }
     this.sendResponse(response);
   }
   protected async attachRequest(response: DebugProtocol.AttachResponse, args: LaunchRequestArguments, request?: DebugProtocol.Request): Promise<void> {
@@ -297,162 +453,387 @@ export class AhkDebugSession extends LoggingDebugSession {
   protected async setBreakPointsRequest(response: DebugProtocol.SetBreakpointsResponse, args: DebugProtocol.SetBreakpointsArguments): Promise<void> {
     return asyncLock.acquire('setBreakPointsRequest', async() => {
       this.traceLogger.log('setBreakPointsRequest');
+      // Kept even without a session, e.g. while restarting, since they are registered when the next connection is initialized
+      const filePath = args.source.path ?? '';
+      const fileUri = URI.file(filePath).toString();
+      this.requestedBreakpoints.set(fileUri, args.breakpoints ?? []);
       if (this.isClosedSession) {
         this.sendResponse(response);
         return;
       }
 
-      const filePath = args.source.path ?? '';
-      const fileUri = URI.file(filePath).toString();
-      const removedBreakpoints = await this.breakpointManager!.unregisterBreakpointsInFile(fileUri);
+      // Each connection has its own breakpoints, but the result of the main thread is displayed
+      let vscodeBreakpoints: DebugProtocol.Breakpoint[] = [];
+      for await (const thread of this.threads.values()) {
+        const result = await this.registerLineBreakpoints(thread, fileUri, args.breakpoints ?? []);
+        if (thread === this.mainThread) {
+          vscodeBreakpoints = result;
+        }
+      }
 
-      const vscodeBreakpoints: DebugProtocol.Breakpoint[] = [];
-      for await (const requestedBreakpoint of args.breakpoints ?? []) {
-        try {
-          const { condition, hitCondition, line, column = 1 } = requestedBreakpoint;
-          const logMessage = requestedBreakpoint.logMessage ? `${requestedBreakpoint.logMessage}\n` : '';
-          const advancedData = {
-            condition,
-            hitCondition,
-            logMessage,
-            unverifiedLine: line,
-            unverifiedColumn: column,
-          } as BreakpointAdvancedData;
+      response.body = { breakpoints: vscodeBreakpoints };
+      this.sendResponse(response);
+    });
+  }
+  protected async breakpointLocationsRequest(response: DebugProtocol.BreakpointLocationsResponse, args: DebugProtocol.BreakpointLocationsArguments, request?: DebugProtocol.Request): Promise<void> {
+    this.traceLogger.log('breakpointLocationsRequest');
+    if (this.isClosedSession || !args.source.path) {
+      response.body = { breakpoints: [] };
+      this.sendResponse(response);
+      return;
+    }
+
+    try {
+      const document = await vscode.workspace.openTextDocument(args.source.path);
+      const lines = findBreakpointLocations(this.session!.ahkVersion, document.getText(), args.line, args.endLine ?? args.line);
+      response.body = { breakpoints: lines.map((line) => ({ line })) };
+    }
+    catch (error: unknown) {
+      response.body = { breakpoints: [] };
+    }
+    this.sendResponse(response);
+  }
+  protected async setFunctionBreakPointsRequest(response: DebugProtocol.SetFunctionBreakpointsResponse, args: DebugProtocol.SetFunctionBreakpointsArguments, request?: DebugProtocol.Request): Promise<void> {
+    // Shares the lock with setBreakPointsRequest because both rewrite the breakpoints of BreakpointManager
+    return asyncLock.acquire('setBreakPointsRequest', async() => {
+      this.traceLogger.log('setFunctionBreakPointsRequest');
+      this.requestedFunctionBreakpoints = args.breakpoints;
+      if (this.isClosedSession) {
+        this.sendResponse(response);
+        return;
+      }
 
-          const registeredBreakpoint = await this.breakpointManager!.registerBreakpoint(fileUri, line, advancedData);
+      let vscodeBreakpoints: DebugProtocol.Breakpoint[] = [];
+      for await (const thread of this.threads.values()) {
+        const result = await this.registerFunctionBreakpoints(thread, args.breakpoints);
+        if (thread === this.mainThread) {
+          vscodeBreakpoints = result;
+        }
+      }
 
-          // Restore hitCount
-          const removedBreakpoint = removedBreakpoints.find((breakpoint) => registeredBreakpoint.unverifiedLine === breakpoint.unverifiedLine && registeredBreakpoint.unverifiedColumn === breakpoint.unverifiedColumn);
-          if (removedBreakpoint) {
-            registeredBreakpoint.hitCount = removedBreakpoint.hitCount;
-          }
+      response.body = { breakpoints: vscodeBreakpoints };
+      this.sendResponse(response);
+    });
+  }
+  protected async setExceptionBreakPointsRequest(response: DebugProtocol.SetExceptionBreakpointsResponse, args: DebugProtocol.SetExceptionBreakpointsArguments, request?: DebugProtocol.Request): Promise<void> {
+    return asyncLock.acquire('setExceptionBreakPointsRequest', async() => {
+      this.traceLogger.log('setExceptionBreakPointsRequest');
+      this.exceptionBreakpointFilters = args.filters;
+      if (this.isClosedSession) {
+        this.sendResponse(response);
+        return;
+      }
 
-          vscodeBreakpoints.push({
-            id: registeredBreakpoint.id,
-            line: registeredBreakpoint.line,
-            verified: true,
-          });
+      let vscodeBreakpoints: DebugProtocol.Breakpoint[] = [];
+      for await (const thread of this.threads.values()) {
+        const result = await this.registerExceptionBreakpoints(thread, args.filters);
+        if (thread === this.mainThread) {
+          vscodeBreakpoints = result;
         }
-        catch (error: unknown) {
-          const errorMessage = error instanceof Error ? error.message : 'User will never see this message.';
-          vscodeBreakpoints.push({
-            verified: false,
-            message: errorMessage,
-          });
+      }
+
+      response.body = { breakpoints: vscodeBreakpoints };
+      this.sendResponse(response);
+    });
+  }
+  protected async dataBreakpointInfoRequest(response: DebugProtocol.DataBreakpointInfoResponse, args: DebugProtocol.DataBreakpointInfoArguments, request?: DebugProtocol.Request): Promise<void> {
+    this.traceLogger.log('dataBreakpointInfoRequest');
+    const sendNotAvailable = (description: string): void => {
+      response.body = { dataId: null, description };
+      this.sendResponse(response);
+    };
+    if (this.isClosedSession) {
+      sendNotAvailable('Data breakpoints are not available without a session.');
+      return;
+    }
+
+    try {
+      let fullName: string, context: dbgp.Context | undefined;
+      const objectVariable = args.variablesReference ? this.variableManager!.getObjectVariable(args.variablesReference) : undefined;
+      const category = args.variablesReference ? this.variableManager!.getCategory(args.variablesReference) : undefined;
+      if (objectVariable) {
+        fullName = `${objectVariable.fullName}${args.name.startsWith('[') ? args.name : `.${args.name}`}`;
+        context = objectVariable.context;
+      }
+      else if (category) {
+        // A category may consist of several scopes, so the context is taken from the variable itself
+        fullName = args.name;
+        context = category.children?.find((variable) => variable.name === args.name)?.context ?? category.context;
+      }
+      else {
+        // An expression such as a watch expression, which is evaluated in the top frame
+        const property = await this.session!.evaluate(args.name);
+        fullName = property?.fullName ?? args.name;
+        context = property?.context;
+      }
+      if (!context) {
+        sendNotAvailable(`\`${args.name}\` is not available.`);
+        return;
+      }
+
+      // Local variables belong to the function of the frame
+      const functionName = [ 'Local', 'Static' ].includes(context.name) ? context.stackFrame.name : '';
+      const target: DataBreakpointTarget = { contextName: context.name, functionName, fullName };
+      response.body = {
+        dataId: createDataId(target),
+        description: functionName ? `${fullName} (${functionName})` : fullName,
+        accessTypes: [ 'write' ],
+        canPersist: false,
+      };
+      this.sendResponse(response);
+    }
+    catch (error: unknown) {
+      sendNotAvailable(error instanceof Error ? error.message : 'User will never see this message.');
+    }
+  }
+  protected async setDataBreakpointsRequest(response: DebugProtocol.SetDataBreakpointsResponse, args: DebugProtocol.SetDataBreakpointsArguments, request?: DebugProtocol.Request): Promise<void> {
+    return asyncLock.acquire('setBreakPointsRequest', async() => {
+      this.traceLogger.log('setDataBreakpointsRequest');
+      const targets = args.breakpoints.map((requestedBreakpoint) => {
+        const target = parseDataId(requestedBreakpoint.dataId);
+        return target ? { ...target, condition: requestedBreakpoint.condition, hitCondition: requestedBreakpoint.hitCondition } : undefined;
+      });
+      const validTargets = targets.filter((target): target is NonNullable<typeof target> => Boolean(target));
+      this.requestedDataBreakpoints = validTargets;
+      if (this.isClosedSession) {
+        this.sendResponse(response);
+        return;
+      }
+
+      let vscodeBreakpoints: DebugProtocol.Breakpoint[] = [];
+      for await (const thread of this.threads.values()) {
+        const wasEmpty = thread.dataBreakpointManager.isEmpty;
+
+        // The engine cannot be inspected while running, so the snapshots are taken on the first step
+        const registered = await thread.dataBreakpointManager.setBreakpoints(validTargets, thread.isPaused);
+        if (thread !== this.mainThread) {
+          continue;
+        }
+
+        if (wasEmpty && 0 < registered.length) {
+          this.sendAnnounce('[Warning] Data breakpoints are emulated by stepping through every line and comparing the values, so the script runs much slower while they are set. Only writes can be detected; objects are compared by identity, not by their contents.', 'stderr');
         }
+        vscodeBreakpoints = targets.map((target) => {
+          if (!target) {
+            return { verified: false, message: 'The variable cannot be watched.' };
+          }
+          const breakpoint = registered.find((breakpoint) => breakpoint.dataId === createDataId(target));
+          return { id: breakpoint?.id, verified: Boolean(breakpoint) };
+        });
       }
 
       response.body = { breakpoints: vscodeBreakpoints };
       this.sendResponse(response);
     });
   }
+  protected exceptionInfoRequest(response: DebugProtocol.ExceptionInfoResponse, args: DebugProtocol.ExceptionInfoArguments, request?: DebugProtocol.Request): void {
+    this.traceLogger.log('exceptionInfoRequest');
+    const exceptionInfo = this.threads.get(args.threadId)?.currentExceptionInfo;
+    if (!exceptionInfo) {
+      this.sendErrorResponse(response, { id: 1, format: 'No exception information is available.' });
+      return;
+    }
+
+    response.body = exceptionInfo;
+    this.sendResponse(response);
+  }
   protected async configurationDoneRequest(response: DebugProtocol.ConfigurationDoneResponse, args: DebugProtocol.ConfigurationDoneArguments, request?: DebugProtocol.Request): Promise<void> {
     this.traceLogger.log('configurationDoneRequest');
     this.sendResponse(response);
-    if (this.isClosedSession) {
+    const thread = this.mainThread!;
+    if (this.isClosedThread(thread)) {
       return;
     }
 
-    await this.session!.sendFeatureSetCommand('max_children', this.config.maxChildren);
-    await this.registerDebugDirective();
+    await thread.session.sendFeatureSetCommand('max_children', this.config.maxChildren);
+    await this.registerDebugDirective(thread);
 
     const result = this.config.stopOnEntry
-      ? await this.session!.sendContinuationCommand('step_into')
-      : await this.session!.sendContinuationCommand('run');
-    this.checkContinuationStatus(result);
+      ? await thread.session.sendContinuationCommand('step_into')
+      : await thread.session.sendContinuationCommand('run');
+    this.checkContinuationStatus(thread, result);
   }
   protected async continueRequest(response: DebugProtocol.ContinueResponse, args: DebugProtocol.ContinueArguments, request?: DebugProtocol.Request): Promise<void> {
     this.traceLogger.log('continueRequest');
     this.sendResponse(response);
-    if (this.isClosedSession) {
+    const thread = this.threads.get(args.threadId);
+    if (!thread || this.isClosedThread(thread)) {
       return;
     }
 
-    this.currentMetaVariableMap = undefined;
-    this.pauseRequested = false;
-    this.isPaused = false;
+    thread.currentMetaVariableMap = undefined;
+    thread.pauseRequested = false;
+    thread.isPaused = false;
 
     this.clearPerfTipsDecorations();
-    const result = await this.session!.sendContinuationCommand('run');
-    this.checkContinuationStatus(result);
+    const result = await this.sendRunCommand(thread);
+    this.checkContinuationStatus(thread, result);
   }
   protected async nextRequest(response: DebugProtocol.NextResponse, args: DebugProtocol.NextArguments, request?: DebugProtocol.Request): Promise<void> {
     this.traceLogger.log('nextRequest');
     this.sendResponse(response);
-    if (this.isClosedSession) {
+    const thread = this.threads.get(args.threadId);
+    if (!thread || this.isClosedThread(thread)) {
       return;
     }
 
-    this.currentMetaVariableMap = undefined;
-    this.pauseRequested = false;
-    this.isPaused = false;
+    thread.currentMetaVariableMap = undefined;
+    thread.pauseRequested = false;
+    thread.isPaused = false;
 
     this.clearPerfTipsDecorations();
-    const result = await this.session!.sendContinuationCommand('step_over');
-    this.checkContinuationStatus(result);
+    const result = await thread.session.sendContinuationCommand('step_over');
+    this.checkContinuationStatus(thread, result);
   }
   protected async stepInRequest(response: DebugProtocol.StepInResponse, args: DebugProtocol.StepInArguments, request?: DebugProtocol.Request): Promise<void> {
     this.traceLogger.log('stepInRequest');
     this.sendResponse(response);
-    if (this.isClosedSession) {
+    const thread = this.threads.get(args.threadId);
+    if (!thread || this.isClosedThread(thread)) {
       return;
     }
 
-    this.currentMetaVariableMap = undefined;
-    this.pauseRequested = false;
-    this.isPaused = false;
+    thread.currentMetaVariableMap = undefined;
+    thread.pauseRequested = false;
+    thread.isPaused = false;
+
+    const targetName = typeof args.targetId === 'number' ? this.stepInTargets.get(args.targetId) : undefined;
+    if (targetName && thread.currentStackFrames && !thread.currentStackFrames.isIdleMode) {
+      const { source, line } = thread.currentStackFrames[0];
+      thread.stepInTarget = { name: targetName, path: source.path, line, depth: thread.currentStackFrames.length };
+    }
 
     this.clearPerfTipsDecorations();
-    const result = await this.session!.sendContinuationCommand('step_into');
-    this.checkContinuationStatus(result);
+    const result = await thread.session.sendContinuationCommand('step_into');
+    this.checkContinuationStatus(thread, result);
+  }
+  protected async stepInTargetsRequest(response: DebugProtocol.StepInTargetsResponse, args: DebugProtocol.StepInTargetsArguments, request?: DebugProtocol.Request): Promise<void> {
+    this.traceLogger.log('stepInTargetsRequest');
+    response.body = { targets: [] };
+
+    const thread = this.getThreadByFrameId(args.frameId);
+    const stackFrame = thread?.variableManager.getStackFrame(args.frameId);
+    if (!thread || !stackFrame || this.isClosedThread(thread)) {
+      this.sendResponse(response);
+      return;
+    }
+
+    try {
+      const document = await vscode.workspace.openTextDocument(stackFrame.source.path);
+      if (document.lineCount < stackFrame.line) {
+        this.sendResponse(response);
+        return;
+      }
+
+      const lineText = document.lineAt(stackFrame.line - 1).text;
+      response.body.targets = findStepInTargets(thread.session.ahkVersion, lineText).map((candidate) => {
+        const id = this.stepInTargets.size + 1;
+        this.stepInTargets.set(id, candidate.name);
+        return { id, label: `${candidate.fullName}()`, line: stackFrame.line, column: candidate.column, endColumn: candidate.endColumn };
+      });
+    }
+    catch (error: unknown) {
+      // e.g. The source has been deleted. Only the plain step in is available
+      this.traceLogger.log(`Failed to find the step in targets. ${error instanceof Error ? error.message : ''}`);
+    }
+    this.sendResponse(response);
   }
   protected async stepOutRequest(response: DebugProtocol.StepOutResponse, args: DebugProtocol.StepOutArguments, request?: DebugProtocol.Request): Promise<void> {
     this.traceLogger.log('stepOutRequest');
     this.sendResponse(response);
-    if (this.isClosedSession) {
+    const thread = this.threads.get(args.threadId);
+    if (!thread || this.isClosedThread(thread)) {
       return;
     }
 
-    this.currentMetaVariableMap = undefined;
-    this.pauseRequested = false;
-    this.isPaused = false;
+    thread.currentMetaVariableMap = undefined;
+    thread.pauseRequested = false;
+    thread.isPaused = false;
 
     this.clearPerfTipsDecorations();
-    const result = await this.session!.sendContinuationCommand('step_out');
-    this.checkContinuationStatus(result);
+    const result = await thread.session.sendContinuationCommand('step_out');
+    this.checkContinuationStatus(thread, result);
   }
   protected async pauseRequest(response: DebugProtocol.PauseResponse, args: DebugProtocol.PauseArguments, request?: DebugProtocol.Request): Promise<void> {
     this.traceLogger.log('pauseRequest');
     this.sendResponse(response);
-    if (this.isClosedSession) {
+    const thread = this.threads.get(args.threadId);
+    if (!thread || this.isClosedThread(thread)) {
       return;
     }
 
-    this.pauseRequested = false;
-    this.isPaused = false;
+    thread.pauseRequested = false;
+    thread.isPaused = false;
 
-    if (this.autoExecuting) {
-      this.pauseRequested = true;
+    if (thread.autoExecuting) {
+      thread.pauseRequested = true;
 
       // Force pause
       setTimeout(() => {
-        if (!this.isPaused) {
-          if (this.isClosedSession) {
+        if (!thread.isPaused) {
+          if (this.isClosedThread(thread)) {
             return;
           }
 
-          this.pauseRequested = false;
-          this.session!.sendContinuationCommand('break').then((result) => {
-            this.checkContinuationStatus(result);
+          thread.pauseRequested = false;
+          thread.session.sendContinuationCommand('break').then((result) => {
+            this.checkContinuationStatus(thread, result);
           });
         }
       }, 100);
       return;
     }
 
-    this.currentMetaVariableMap = undefined;
-    const result = await this.session!.sendContinuationCommand('break');
-    this.checkContinuationStatus(result);
+    thread.currentMetaVariableMap = undefined;
+    const result = await thread.session.sendContinuationCommand('break');
+    this.checkContinuationStatus(thread, result);
+  }
+  // AutoHotkey cannot change the next statement to be executed, so the goto target is used for "Run to Cursor"
+  protected gotoTargetsRequest(response: DebugProtocol.GotoTargetsResponse, args: DebugProtocol.GotoTargetsArguments, request?: DebugProtocol.Request): void {
+    this.traceLogger.log('gotoTargetsRequest');
+    if (!args.source.path) {
+      response.body = { targets: [] };
+      this.sendResponse(response);
+      return;
+    }
+
+    const id = this.gotoTargets.size + 1;
+    this.gotoTargets.set(id, { fileUri: URI.file(args.source.path).toString(), line: args.line });
+    response.body = { targets: [ { id, label: `Run to line ${args.line}`, line: args.line } ] };
+    this.sendResponse(response);
+  }
+  protected async gotoRequest(response: DebugProtocol.GotoResponse, args: DebugProtocol.GotoArguments, request?: DebugProtocol.Request): Promise<void> {
+    this.traceLogger.log('gotoRequest');
+    const target = this.gotoTargets.get(args.targetId);
+    const thread = this.threads.get(args.threadId);
+    if (!target || !thread || this.isClosedThread(thread)) {
+      this.sendResponse(response);
+      return;
+    }
+
+    await this.runToCursor(response, thread, target.fileUri, target.line);
+  }
+  protected async completionsRequest(response: DebugProtocol.CompletionsResponse, args: DebugProtocol.CompletionsArguments, request?: DebugProtocol.Request): Promise<void> {
+    this.traceLogger.log('completionsRequest');
+    response.body = { targets: [] };
+
+    const thread = typeof args.frameId === 'number' ? this.getThreadByFrameId(args.frameId) : this.mainThread;
+    if (!thread || this.isClosedThread(thread) || !thread.isPaused) {
+      this.sendResponse(response);
+      return;
+    }
+
+    try {
+      const lines = args.text.split(/\r\n|\n/u);
+      const lineText = lines[args.line === undefined ? 0 : this.convertClientLineToDebugger(args.line) - 1] ?? '';
+      const textBeforeCursor = lineText.slice(0, this.convertClientColumnToDebugger(args.column) - 1);
+      const targets = await createDebugCompletionItems(thread.session, textBeforeCursor, metaVariableNames);
+      response.body.targets = targets.map((target) => (target.start === undefined ? target : { ...target, start: this.convertDebuggerColumnToClient(target.start + 1) }));
+    }
+    catch (error: unknown) {
+      this.traceLogger.log(`Failed to create completions. ${error instanceof Error ? error.message : ''}`);
+    }
+    this.sendResponse(response);
   }
   protected threadsRequest(response: DebugProtocol.ThreadsResponse, request?: DebugProtocol.Request): void {
     this.traceLogger.log('threadsRequest');
@@ -461,12 +842,13 @@ export class AhkDebugSession extends LoggingDebugSession {
       return;
     }
 
-    response.body = { threads: [ new Thread(this.session!.id, 'Thread 1') ] };
+    response.body = { threads: Array.from(this.threads.values()).map((thread) => new Thread(thread.id, thread.name)) };
     this.sendResponse(response);
   }
   protected async stackTraceRequest(response: DebugProtocol.StackTraceResponse, args: DebugProtocol.StackTraceArguments, request?: DebugProtocol.Request): Promise<void> {
     this.traceLogger.log('stackTraceRequest');
-    if (this.isClosedSession) {
+    const thread = this.threads.get(args.threadId);
+    if (!thread || this.isClosedThread(thread)) {
       this.sendResponse(response);
       return;
     }
@@ -475,10 +857,10 @@ export class AhkDebugSession extends LoggingDebugSession {
     const maxLevels = typeof args.levels === 'number' ? args.levels : 1000;
     const endFrame = startFrame + maxLevels;
 
-    if (!this.currentStackFrames) {
-      this.currentStackFrames = await this.variableManager!.createStackFrames();
+    if (!thread.currentStackFrames) {
+      thread.currentStackFrames = await thread.variableManager.createStackFrames();
     }
-    const allStackFrames = this.currentStackFrames;
+    const allStackFrames = thread.currentStackFrames;
     const stackFrames = allStackFrames.slice(startFrame, endFrame);
     response.body = {
       totalFrames: allStackFrames.length,
@@ -488,13 +870,14 @@ export class AhkDebugSession extends LoggingDebugSession {
   }
   protected async scopesRequest(response: DebugProtocol.ScopesResponse, args: DebugProtocol.ScopesArguments, request?: DebugProtocol.Request): Promise<void> {
     this.traceLogger.log('scopesRequest');
-    if (this.isClosedSession) {
+    const thread = this.getThreadByFrameId(args.frameId);
+    if (!thread || this.isClosedThread(thread)) {
       this.sendResponse(response);
       return;
     }
 
-    const categories = await this.variableManager!.createCategories(args.frameId);
-    this.currentMetaVariableMap = this.metaVaribalesByFrameId.get(args.frameId);
+    const categories = await thread.variableManager.createCategories(args.frameId);
+    thread.currentMetaVariableMap = this.metaVaribalesByFrameId.get(args.frameId);
     response.body = {
       scopes: categories.map((scope) => ({
         name: scope.name,
@@ -513,6 +896,31 @@ export class AhkDebugSession extends LoggingDebugSession {
       return;
     }
 
+    const tokenSource = this.createCancellationTokenSource(response.request_seq);
+    try {
+      await this.createVariablesResponse(response, args, tokenSource.token);
+    }
+    catch (error: unknown) {
+      if (error instanceof CancellationError) {
+        this.sendCancelledResponse(response);
+        return;
+      }
+      if (error instanceof dbgp.DbgpCriticalError) {
+        this.raisedCriticalError = true;
+        this.sendAnnounce(error.message, 'stderr');
+        this.sendTerminateEvent();
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.traceLogger.log(`Failed to create the variables. ${errorMessage}`);
+      this.sendErrorResponse(response, { id: 1, format: `Failed to get the variables. ${errorMessage}` });
+    }
+    finally {
+      this.cancellationTokenSources.delete(response.request_seq);
+    }
+  }
+  private async createVariablesResponse(response: DebugProtocol.VariablesResponse, args: DebugProtocol.VariablesArguments, token: CancellationToken): Promise<void> {
+
     const logged = this.logObjectsMap.get(args.variablesReference);
     if (logged) {
       if (logged instanceof Scope || logged instanceof Category || logged instanceof Categories) {
@@ -535,7 +943,7 @@ export class AhkDebugSession extends LoggingDebugSession {
             {
               name: variable.name,
               variablesReference: variable.variablesReference,
-              value: `${variable.name}: ${variable.value}`,
+              value: `${variable.name}: ${await this.formatValue(variable.session, variable.property)}`,
               type: variable.type,
               indexedVariables: variable.indexedVariables,
               namedVariables: variable.namedVariables,
@@ -576,95 +984,98 @@ export class AhkDebugSession extends LoggingDebugSession {
 
     const metaVariable = this.variableManager!.getMetaVariable(args.variablesReference);
     if (metaVariable && !(metaVariable.rawValue instanceof Variable)) {
-      response.body = {
-        variables: (await metaVariable.createChildren()).map((child) => ({
+      const children = await raceCancellation(metaVariable.createChildren(), token);
+      response.body = { variables: [] };
+      for await (const child of children) {
+        // e.g. The objects output by the logpoint
+        const value = child instanceof MetaVariable && child.rawValue instanceof Variable
+          ? await this.formatValue(child.rawValue.session, child.rawValue.property)
+          : child.value;
+        response.body.variables.push({
           name: child.name,
           variablesReference: child.variablesReference,
-          value: child.value,
+          value,
           indexedVariables: child.indexedVariables,
           namedVariables: child.namedVariables,
-        })),
-      };
+        });
+      }
       this.sendResponse(response);
       return;
     }
 
-    const variables = await (metaVariable?.rawValue as Variable | undefined)?.createMembers(args)
-      ?? await this.variableManager!.getCategory(args.variablesReference)?.createChildren()
-      ?? await this.variableManager!.createVariables(args);
+    const format = this.resolveValueFormat(args.format);
+    const parentVariable = (metaVariable?.rawValue as Variable | undefined) ?? this.variableManager!.getObjectVariable(args.variablesReference);
+    let variables = await parentVariable?.createMembers(args, token)
+      ?? await this.variableManager!.getCategory(args.variablesReference)?.createChildren(undefined, token)
+      ?? await this.variableManager!.createVariables(args, undefined, token);
+    // The chunk nodes are not the members of the object
+    if (variables && parentVariable && !parentVariable.hasChunks) {
+      variables = await this.threads.get(parentVariable.session.id)?.variableFormatter.filterChildren(parentVariable.property, variables) ?? variables;
+    }
     if (variables) {
+      const values: string[] = [];
+      for await (const variable of variables) {
+        values.push(variable.range ? variable.formatValue(format) : await raceCancellation(this.formatValue(variable.session, variable.property, format), token));
+      }
+
       response.body = {
-        variables: variables.map((variable) => ({
-          name: variable.name,
-          variablesReference: variable.variablesReference,
-          value: variable.value,
-          type: variable.type,
-          indexedVariables: variable.indexedVariables,
-          namedVariables: variable.namedVariables,
-          evaluateName: variable.fullName,
-          __vscodeVariableMenuContext: variable.__vscodeVariableMenuContext,
-        })),
+        variables: variables.map((variable, i) => {
+          if (variable.range) {
+            return {
+              name: variable.name,
+              variablesReference: variable.variablesReference,
+              value: values[i],
+              namedVariables: variable.namedVariables,
+              presentationHint: { kind: 'virtual' },
+            };
+          }
+
+          const isChanged = this.threads.get(variable.session.id)?.valueChangeTracker.track(variable.property) ?? false;
+          return {
+            name: variable.name,
+            variablesReference: variable.variablesReference,
+            // VS Code does not render any presentationHint for changed values, so they are annotated in the value itself
+            value: isChanged ? annotateChangedValue(values[i]) : values[i],
+            type: variable.type,
+            indexedVariables: variable.indexedVariables,
+            namedVariables: variable.namedVariables,
+            evaluateName: variable.fullName,
+            __vscodeVariableMenuContext: variable.__vscodeVariableMenuContext,
+          };
+        }),
       };
     }
     this.sendResponse(response);
   }
   protected async setVariableRequest(response: DebugProtocol.SetVariableResponse, args: DebugProtocol.SetVariableArguments, request?: DebugProtocol.Request): Promise<void> {
     this.traceLogger.log('setVariableRequest');
-    let typeName: string, data: string;
-    const parsed = this.ahkParser.Primitive.parse(args.value);
-    if ('value' in parsed) {
-      const primitive = parsed.value.value;
-
-      typeName = 'string';
-      data = `${String(primitive.value)}`;
-      if (primitive.type === 'Number') {
-        const number = primitive.value;
-        if (number.type === 'Integer') {
-          typeName = 'integer';
-          data = String(number.value);
-        }
-        else if (number.type === 'Hex') {
-          typeName = 'integer';
-          data = String(parseInt(number.value, 16));
-        }
-        else if (2 <= this.session!.ahkVersion.mejor && number.type === 'Scientific') {
-          typeName = 'float';
-          data = `${String(parseFloat(number.value))}.0`;
-        }
-        else {
-          if (2 <= this.session!.ahkVersion.mejor) {
-            typeName = 'float';
-          }
-          data = String(number.value);
-        }
-      }
-    }
-    else if (args.value === '') {
-      typeName = 'undefined';
-      data = `Not initialized`;
-    }
-    else {
-      this.sendErrorResponse(response, {
-        id: args.variablesReference,
-        format: 'Only primitive values are supported. e.g. "string", 123, 0x123, 1.0e+5, true',
-      } as DebugProtocol.Message);
-      return;
-    }
-
     let fullName = args.name;
-    let context: dbgp.Context;
+    let context: dbgp.Context, session: dbgp.Session;
     const objectVariable = this.variableManager!.getObjectVariable(args.variablesReference);
     if (objectVariable) {
       const name = args.name.startsWith('[') ? args.name : `.${args.name}`;
       fullName = `${objectVariable.fullName}${name}`;
       context = objectVariable.context;
+      session = objectVariable.session;
     }
     else {
-      context = this.variableManager!.getCategory(args.variablesReference)!.context;
+      const category = this.variableManager!.getCategory(args.variablesReference)!;
+      context = category.context;
+      session = category.session;
     }
 
     try {
-      const dbgpResponse = await this.session!.sendPropertySetCommand({
+      const assignedValue = await this.parseAssignedValue(session, args.value, context.stackFrame);
+      if (!assignedValue) {
+        this.sendErrorResponse(response, {
+          id: args.variablesReference,
+          format: assignableValueMessage,
+        } as DebugProtocol.Message);
+        return;
+      }
+      const { typeName, data } = assignedValue;
+
+      const dbgpResponse = await session.sendPropertySetCommand({
         context,
         fullName,
         typeName,
@@ -678,13 +1089,19 @@ export class AhkDebugSession extends LoggingDebugSession {
         return;
       }
 
-      const { properties } = await this.session!.sendPropertyGetCommand(context, fullName);
+      const { properties } = await session.sendPropertyGetCommand(context, fullName);
+      const variable = properties[0] instanceof dbgp.ObjectProperty ? new Variable(session, properties[0]) : undefined;
       response.body = {
-        type: typeName,
-        variablesReference: 0,
-        value: formatProperty(properties[0], this.session?.ahkVersion),
+        type: properties[0].type,
+        variablesReference: variable?.variablesReference ?? 0,
+        namedVariables: variable?.namedVariables,
+        indexedVariables: variable?.indexedVariables,
+        value: await this.formatValue(session, properties[0], this.resolveValueFormat(args.format)),
       };
       this.sendResponse(response);
+
+      // The same object may be displayed in other places, e.g. the watch expression and the other scopes
+      this.sendEvent(new InvalidatedEvent([ 'variables' ]));
     }
     catch (error: unknown) {
       this.sendErrorResponse(response, {
@@ -693,10 +1110,75 @@ export class AhkDebugSession extends LoggingDebugSession {
       } as DebugProtocol.Message);
     }
   }
+  protected async setExpressionRequest(response: DebugProtocol.SetExpressionResponse, args: DebugProtocol.SetExpressionArguments, request?: DebugProtocol.Request): Promise<void> {
+    this.traceLogger.log('setExpressionRequest');
+    const stackFrame = typeof args.frameId === 'number' ? this.variableManager?.getStackFrame(args.frameId) : undefined;
+    if (!stackFrame || this.isClosedSession) {
+      this.sendErrorResponse(response, {
+        id: args.frameId,
+        format: 'Cannot rewrite the expression without a session',
+      } as DebugProtocol.Message);
+      return;
+    }
+
+    const { session, dbgpStackFrame } = stackFrame;
+    try {
+      const assignedValue = await this.parseAssignedValue(session, args.value, dbgpStackFrame);
+      if (!assignedValue) {
+        this.sendErrorResponse(response, {
+          id: args.frameId,
+          format: assignableValueMessage,
+        } as DebugProtocol.Message);
+        return;
+      }
+
+      // e.g. `obj.items[index].name` to `obj.items[3].name`
+      const fullName = await session.resolveVariablePath(args.expression, dbgpStackFrame);
+      const context = await this.findContextToAssign(session, fullName, dbgpStackFrame);
+      const dbgpResponse = await session.sendPropertySetCommand({ context, fullName, ...assignedValue });
+      if (!dbgpResponse.success) {
+        this.sendErrorResponse(response, {
+          id: args.frameId,
+          format: 'Rewriting failed. Probably read-only.',
+        } as DebugProtocol.Message);
+        return;
+      }
+
+      const { properties } = await session.sendPropertyGetCommand(context, fullName);
+      const variable = properties[0] instanceof dbgp.ObjectProperty ? new Variable(session, properties[0]) : undefined;
+      response.body = {
+        type: properties[0].type,
+        variablesReference: variable?.variablesReference ?? 0,
+        namedVariables: variable?.namedVariables,
+        indexedVariables: variable?.indexedVariables,
+        value: await this.formatValue(session, properties[0], this.resolveValueFormat(args.format)),
+      };
+      this.sendResponse(response);
+      this.sendEvent(new InvalidatedEvent([ 'variables' ]));
+    }
+    catch (error: unknown) {
+      this.sendErrorResponse(response, {
+        id: args.frameId,
+        format: 'Command execution failed. This message is not normally displayed.',
+      } as DebugProtocol.Message);
+    }
+  }
   protected async evaluateRequest(response: DebugProtocol.EvaluateResponse, args: DebugProtocol.EvaluateArguments, request?: DebugProtocol.Request): Promise<void> {
     return asyncLock.acquire('evaluateRequest', async() => {
       this.traceLogger.log('evaluateRequest');
 
+      // Commands of the debug console, e.g. `:bp list`
+      if (args.context === 'repl' && args.expression.startsWith(':')) {
+        try {
+          response.body = { result: await this.executeReplCommand(args.expression.slice(1), args.frameId), variablesReference: 0 };
+        }
+        catch (error: unknown) {
+          response.body = { result: error instanceof Error ? error.message : 'User will never see this message.', variablesReference: 0 };
+        }
+        this.sendResponse(response);
+        return;
+      }
+
       if (args.context === 'variables') {
         this.sendResponse(response);
         return;
@@ -708,6 +1190,8 @@ export class AhkDebugSession extends LoggingDebugSession {
       }
 
       const propertyName = args.context === 'hover' ? args.expression.replace(/^&/u, '') : args.expression;
+      const { token } = this.createCancellationTokenSource(response.request_seq);
+      const format = this.resolveValueFormat(args.format);
       try {
         if (!args.frameId) {
           throw Error('Error: Cannot evaluate code without a session');
@@ -740,91 +1224,564 @@ export class AhkDebugSession extends LoggingDebugSession {
 
           return;
         }
-
-        const propertyNameParsed = this.ahkParser.PropertyName.parse(propertyName);
-        if (!propertyNameParsed.status) {
-          throw Error('Error: Only the property name or meta variable is supported. e.g. `variable`,` object.field`, `array[1]`, `map["spaced key"]`, `prop.<base>`, `{hitCount}`');
+
+        const stackFrame = this.variableManager!.getStackFrame(args.frameId);
+        if (!stackFrame) {
+          throw Error('Error: Could not get stack frame');
+        }
+
+        const { session } = stackFrame;
+        const propertyNameParsed = this.ahkParser.PropertyName.parse(propertyName);
+        if (!propertyNameParsed.status) {
+          // Hovering over operators is not evaluated
+          const thread = this.getThreadByFrameId(args.frameId);
+          if (args.context === 'hover' || !thread) {
+            throw Error('not available');
+          }
+
+          const { expressionEvaluator } = thread;
+          if (!expressionEvaluator.parse(propertyName)) {
+            throw Error('Error: Only the property name, meta variable and expressions without function calls are supported. e.g. `variable`,` object.field`, `array[1]`, `map["spaced key"]`, `prop.<base>`, `{hitCount}`, `a + b`, `x > 5 && y`');
+          }
+
+          const metaVariableMap = this.metaVaribalesByFrameId.get(args.frameId) ?? new MetaVariableValueMap();
+          const value = await raceCancellation(expressionEvaluator.eval(propertyName, metaVariableMap, stackFrame.dbgpStackFrame), token);
+          if (value instanceof dbgp.ObjectProperty) {
+            const variable = new Variable(session, value);
+            response.body = {
+              result: await raceCancellation(this.formatValue(session, value, format), token),
+              type: value.type,
+              variablesReference: variable.variablesReference,
+              indexedVariables: variable.indexedVariables,
+              namedVariables: variable.namedVariables,
+            };
+          }
+          else {
+            response.body = { ...formatExpressionValue(value, session.ahkVersion, format), variablesReference: 0 };
+          }
+          this.sendResponse(response);
+          return;
+        }
+
+        const property = await raceCancellation(session.evaluate(propertyName, stackFrame.dbgpStackFrame), token);
+        if (!property) {
+          if (args.context === 'hover' && (await session.fetchAllPropertyNames()).find((name) => equalsIgnoreCase(name, propertyName))) {
+            response.body = {
+              result: 'Not initialized',
+              type: 'undefined',
+              variablesReference: -1,
+            };
+            this.sendResponse(response);
+            return;
+          }
+          throw Error('not available');
+        }
+
+        const variable = new Variable(session, property);
+        response.body = {
+          result: await raceCancellation(this.formatValue(session, property, format), token),
+          type: property.type,
+          variablesReference: variable.variablesReference,
+          indexedVariables: variable.indexedVariables,
+          namedVariables: variable.namedVariables,
+        };
+        this.sendResponse(response);
+      }
+      catch (error: unknown) {
+        if (error instanceof CancellationError) {
+          this.sendCancelledResponse(response);
+          return;
+        }
+        if (error instanceof dbgp.DbgpCriticalError) {
+          this.raisedCriticalError = true;
+          this.sendAnnounce(error.message, 'stderr');
+          this.sendTerminateEvent();
+          return;
+        }
+
+        if (args.context !== 'hover') {
+          const errorMessage = error instanceof Error ? error.message : 'User will never see this message.';
+          response.body = { result: errorMessage, variablesReference: 0 };
+        }
+        this.sendResponse(response);
+      }
+      finally {
+        this.cancellationTokenSources.delete(response.request_seq);
+      }
+    });
+  }
+  protected sourceRequest(response: DebugProtocol.SourceResponse, args: DebugProtocol.SourceArguments, request?: DebugProtocol.Request): void {
+    this.traceLogger.log('sourceRequest');
+    this.sendResponse(response);
+  }
+  // eslint-disable-next-line @typescript-eslint/require-await
+  protected async loadedSourcesRequest(response: DebugProtocol.LoadedSourcesResponse, args: DebugProtocol.LoadedSourcesArguments, request?: DebugProtocol.Request): Promise<void> {
+    this.traceLogger.log('loadedSourcesRequest');
+
+    if (!this.config.useLoadedScripts) {
+      this.sendResponse(response);
+      return;
+    }
+
+    const loadedScriptPathList = await this.getAllLoadedSourcePath();
+
+    const sources: DebugProtocol.Source[] = [];
+    await Promise.all(loadedScriptPathList.map(async(filePath): Promise<void> => {
+      return new Promise((resolve) => {
+        stat(filePath, (err, stats) => {
+          if (err) {
+            // sources.push({ name: 'Failed to read' });
+            resolve();
+            return;
+          }
+
+          if (stats.isFile()) {
+            sources.push({ name: path.basename(filePath), path: filePath });
+          }
+          resolve();
+        });
+      });
+    }));
+
+    response.body = { sources };
+    this.sendResponse(response);
+  }
+  protected async customRequest(command: string, response: DebugProtocol.Response, args: any, request?: DebugProtocol.Request): Promise<void> {
+    switch (command) {
+      case 'fullValue': await this.fullValueRequest(response, args as FullValueArguments); return;
+      case 'runToCursor': await this.runToCursorRequest(response, args as RunToCursorArguments); return;
+      case 'stopHistory': this.stopHistoryRequest(response, args as StopHistoryArguments); return;
+      default: super.customRequest(command, response, args, request);
+    }
+  }
+  private stopHistoryRequest(response: DebugProtocol.Response, args: StopHistoryArguments): void {
+    this.traceLogger.log('stopHistoryRequest');
+    if (!this.stopHistory) {
+      response.body = { stops: [] };
+      this.sendResponse(response);
+      return;
+    }
+
+    if (typeof args.id === 'number') {
+      const snapshot = this.stopHistory.get(args.id);
+      if (!snapshot) {
+        this.sendErrorResponse(response, { id: 1, format: `The stop #${args.id} has been discarded from the history.` });
+        return;
+      }
+      response.body = { snapshot, latest: this.stopHistory.latest };
+      this.sendResponse(response);
+      return;
+    }
+
+    response.body = { stops: this.stopHistory.getSummaries() };
+    this.sendResponse(response);
+  }
+  private async runToCursorRequest(response: DebugProtocol.Response, args: RunToCursorArguments): Promise<void> {
+    this.traceLogger.log('runToCursorRequest');
+    const stoppedThread = Array.from(this.threads.values()).find((thread) => thread.isPaused);
+    const thread = stoppedThread ?? this.mainThread;
+    if (!thread || this.isClosedThread(thread)) {
+      this.sendResponse(response);
+      return;
+    }
+
+    await this.runToCursor(response, thread, URI.file(args.path).toString(), args.line);
+  }
+  private async fullValueRequest(response: DebugProtocol.Response, args: FullValueArguments): Promise<void> {
+    this.traceLogger.log('fullValueRequest');
+    const container = this.variableManager?.getObjectVariable(args.variablesReference) ?? this.variableManager?.getCategory(args.variablesReference);
+    if (!container || container.session.socketClosed) {
+      this.sendErrorResponse(response, { id: 1, format: 'The variable no longer exists.' });
+      return;
+    }
+
+    // A category may consist of several scopes, so look for the variable in each of them
+    const { session } = container;
+    const contexts = container instanceof Category ? container.scopes.map((scope) => scope.context) : [ container.context ];
+    let errorMessage = '';
+    for await (const context of contexts) {
+      try {
+        const text = await session.fetchFullValue(context, args.evaluateName);
+        response.body = {
+          value: `"${escapeAhk(text, session.ahkVersion)}"`,
+          text,
+        };
+        this.sendResponse(response);
+        return;
+      }
+      catch (error: unknown) {
+        // The variable may be in the next scope
+        errorMessage = error instanceof Error ? error.message : String(error);
+        this.traceLogger.log(`Failed to fetch the full value of \`${args.evaluateName}\` in the ${context.name} context. ${errorMessage}`);
+      }
+    }
+    this.sendErrorResponse(response, { id: 1, format: `Failed to fetch the value of \`${args.evaluateName}\`. ${errorMessage}`.trim() });
+  }
+  private async registerLineBreakpoints(thread: DebugThread, fileUri: string, requestedBreakpoints: DebugProtocol.SourceBreakpoint[]): Promise<DebugProtocol.Breakpoint[]> {
+    const removedBreakpoints = await thread.breakpointManager.unregisterBreakpointsInFile(fileUri);
+
+    // The loaded scripts are extracted from the main script, so other connections are not checked
+    if (thread === this.mainThread && !(await this.isLoadedSource(URI.parse(fileUri).fsPath))) {
+      return requestedBreakpoints.map((requestedBreakpoint) => ({
+        verified: false,
+        line: requestedBreakpoint.line,
+        message: 'This file is not loaded by the script being debugged. Check the `#Include` of the script.',
+      }));
+    }
+
+    const vscodeBreakpoints: DebugProtocol.Breakpoint[] = [];
+    for await (const requestedBreakpoint of requestedBreakpoints) {
+      try {
+        const { condition, hitCondition, line, column = 1 } = requestedBreakpoint;
+        const logMessage = requestedBreakpoint.logMessage ? `${requestedBreakpoint.logMessage}\n` : '';
+        const advancedData = {
+          condition,
+          hitCondition,
+          logMessage,
+          unverifiedLine: line,
+          unverifiedColumn: column,
+        } as BreakpointAdvancedData;
+
+        const registeredBreakpoint = await thread.breakpointManager.registerBreakpoint(fileUri, line, advancedData);
+
+        // Restore hitCount
+        const removedBreakpoint = removedBreakpoints.find((breakpoint) => registeredBreakpoint.unverifiedLine === breakpoint.unverifiedLine && registeredBreakpoint.unverifiedColumn === breakpoint.unverifiedColumn);
+        if (removedBreakpoint) {
+          registeredBreakpoint.hitCount = removedBreakpoint.hitCount;
+        }
+
+        vscodeBreakpoints.push({
+          id: registeredBreakpoint.id,
+          line: registeredBreakpoint.line,
+          verified: true,
+        });
+      }
+      catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'User will never see this message.';
+        vscodeBreakpoints.push({
+          verified: false,
+          message: errorMessage,
+        });
+      }
+    }
+    return vscodeBreakpoints;
+  }
+  private async registerFunctionBreakpoints(thread: DebugThread, requestedBreakpoints: DebugProtocol.FunctionBreakpoint[]): Promise<DebugProtocol.Breakpoint[]> {
+    const removedBreakpoints = await thread.breakpointManager.unregisterFunctionBreakpoints();
+    const definitions = 0 < requestedBreakpoints.length ? await this.getAllFunctionDefinitions() : [];
+
+    const vscodeBreakpoints: DebugProtocol.Breakpoint[] = [];
+    for await (const requestedBreakpoint of requestedBreakpoints) {
+      const { condition, hitCondition } = requestedBreakpoint;
+      const functionName = requestedBreakpoint.name.trim().replace(/\(\)$/u, '');
+      const matchedDefinitions = definitions.filter((definition) => matcher.isMatch(definition.fullName, functionName));
+      if (matchedDefinitions.length === 0) {
+        vscodeBreakpoints.push({
+          verified: false,
+          message: `No function, method or label named "${functionName}" was found in the loaded scripts.`,
+        });
+        continue;
+      }
+
+      try {
+        const registeredBreakpoints: Breakpoint[] = [];
+        for await (const definition of matchedDefinitions) {
+          const advancedData = {
+            condition,
+            hitCondition,
+            functionName: definition.fullName,
+            unverifiedLine: definition.line,
+          } as BreakpointAdvancedData;
+          const registeredBreakpoint = await thread.breakpointManager.registerBreakpoint(URI.file(definition.filePath).toString(), definition.line, advancedData);
+
+          // Restore hitCount
+          const removedBreakpoint = removedBreakpoints.find((breakpoint) => equalsIgnoreCase(breakpoint.functionName ?? '', definition.fullName));
+          if (removedBreakpoint) {
+            registeredBreakpoint.hitCount = removedBreakpoint.hitCount;
+          }
+          registeredBreakpoints.push(registeredBreakpoint);
+        }
+
+        // Since a DAP function breakpoint corresponds to only one location, the first match is displayed
+        const [ { id, line, filePath } ] = registeredBreakpoints;
+        vscodeBreakpoints.push({
+          id,
+          line,
+          source: { name: path.basename(filePath), path: filePath },
+          verified: true,
+        });
+      }
+      catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : 'User will never see this message.';
+        vscodeBreakpoints.push({
+          verified: false,
+          message: errorMessage,
+        });
+      }
+    }
+    return vscodeBreakpoints;
+  }
+  private async registerExceptionBreakpoints(thread: DebugThread, filters: string[]): Promise<DebugProtocol.Breakpoint[]> {
+    for await (const id of thread.exceptionBreakpointIds) {
+      await thread.session.sendBreakpointRemoveCommand(id).catch(() => undefined);
+    }
+    thread.exceptionBreakpointIds = [];
+
+    const vscodeBreakpoints: DebugProtocol.Breakpoint[] = [];
+    for await (const filter of filters) {
+      try {
+        const { id } = await thread.session.sendExceptionBreakpointSetCommand(filter === 'caught' ? 'caught' : 'uncaught');
+        thread.exceptionBreakpointIds.push(id);
+        vscodeBreakpoints.push({ id, verified: true });
+      }
+      catch (error: unknown) {
+        vscodeBreakpoints.push({
+          verified: false,
+          message: `Exception breakpoints are not supported by AutoHotkey ${thread.session.ahkVersion.full}.`,
+        });
+      }
+    }
+    return vscodeBreakpoints;
+  }
+  private async runToCursor(response: DebugProtocol.Response, thread: DebugThread, fileUri: string, line: number): Promise<void> {
+    try {
+      thread.runToCursorBreakpoint = await thread.breakpointManager.setTemporaryBreakpoint(fileUri, line);
+    }
+    catch (error: unknown) {
+      this.sendErrorResponse(response, { id: 1, format: `Cannot run to line ${line}. ${error instanceof Error ? error.message : ''}` });
+      return;
+    }
+    this.sendResponse(response);
+
+    thread.currentMetaVariableMap = undefined;
+    thread.pauseRequested = false;
+    thread.isPaused = false;
+
+    this.clearPerfTipsDecorations();
+    const result = await this.sendRunCommand(thread);
+    this.checkContinuationStatus(thread, result);
+  }
+  /**
+   * Create the token to be cancelled by cancelRequest. Must be deleted from cancellationTokenSources when the work is finished.
+   * @param id The sequence number of the request, or the id of the progress
+   */
+  private createCancellationTokenSource(id: number | string): CancellationTokenSource {
+    const tokenSource = new CancellationTokenSource();
+    this.cancellationTokenSources.set(id, tokenSource);
+    return tokenSource;
+  }
+  // While data breakpoints are set, `run` is emulated by `step_into` so that the values can be compared on each line
+  private async sendRunCommand(thread: DebugThread): Promise<dbgp.ContinuationResponse> {
+    thread.isEmulatingRun = !thread.dataBreakpointManager.isEmpty;
+    return thread.isEmulatingRun
+      ? thread.session.sendStepIntoCommand()
+      : thread.session.sendRunCommand();
+  }
+  // Objects matched by `variableFormatters` are formatted by its template instead of the default format
+  private async formatValue(session: dbgp.Session, property: dbgp.Property, format?: DebugProtocol.ValueFormat): Promise<string> {
+    const formatted = await this.threads.get(session.id)?.variableFormatter.format(property, format);
+    return formatted ?? formatProperty(property, session.ahkVersion, format);
+  }
+  // If the client does not specify the format, the one of the launch configuration is used
+  private resolveValueFormat(format?: DebugProtocol.ValueFormat): DebugProtocol.ValueFormat | undefined {
+    return format ?? (this.config.valueFormat === 'hex' ? { hex: true } : undefined);
+  }
+  private sendCancelledResponse(response: DebugProtocol.Response): void {
+    response.success = false;
+    response.message = 'cancelled';
+    this.sendResponse(response);
+  }
+  private parsePrimitiveValue(value: string): { typeName: string; data: string } | undefined {
+    const parsed = this.ahkParser.Primitive.parse(value);
+    if ('value' in parsed) {
+      const primitive = parsed.value.value;
+
+      let typeName = 'string';
+      let data = `${String(primitive.value)}`;
+      if (primitive.type === 'Number') {
+        const number = primitive.value;
+        if (number.type === 'Integer') {
+          typeName = 'integer';
+          data = String(number.value);
+        }
+        else if (number.type === 'Hex') {
+          typeName = 'integer';
+          data = String(parseInt(number.value, 16));
+        }
+        else if (2 <= this.session!.ahkVersion.mejor && number.type === 'Scientific') {
+          typeName = 'float';
+          data = `${String(parseFloat(number.value))}.0`;
+        }
+        else {
+          if (2 <= this.session!.ahkVersion.mejor) {
+            typeName = 'float';
+          }
+          data = String(number.value);
+        }
+      }
+      return { typeName, data };
+    }
+    else if (value === '') {
+      return { typeName: 'undefined', data: `Not initialized` };
+    }
+    return undefined;
+  }
+  /**
+   * Parse the value to be assigned by setVariable and the like. In addition to primitives, the name of an existing variable such as `otherVariable` or `obj.items[1]` is accepted, and its value is copied.
+   * Objects are not accepted, since `property_set` of AutoHotkey only supports primitive types.
+   */
+  private async parseAssignedValue(session: dbgp.Session, value: string, stackFrame?: dbgp.StackFrame): Promise<{ typeName: string; data: string } | undefined> {
+    const primitiveValue = this.parsePrimitiveValue(value);
+    if (primitiveValue) {
+      return primitiveValue;
+    }
+
+    const trimmedValue = value.trim();
+    if (!this.ahkParser.PropertyName.parse(trimmedValue).status) {
+      return undefined;
+    }
+    const property = await session.evaluate(trimmedValue, stackFrame);
+    if (property instanceof dbgp.PrimitiveProperty) {
+      return { typeName: property.type, data: property.value };
+    }
+    return undefined;
+  }
+  /**
+   * Find the context of the variable to be assigned. If it does not exist yet, e.g. a new key, the context of the nearest existing parent is used.
+   */
+  private async findContextToAssign(session: dbgp.Session, fullName: string, stackFrame?: dbgp.StackFrame): Promise<dbgp.Context> {
+    const pathArray = splitVariablePath(session.ahkVersion, fullName);
+    while (0 < pathArray.length) {
+      const property = await session.evaluate(joinVariablePathArray(pathArray), stackFrame);
+      if (property) {
+        return property.context;
+      }
+      pathArray.pop();
+    }
+
+    // A new variable is created in the local context of the frame
+    const { contexts } = await session.sendContextNamesCommand(stackFrame ?? (await session.sendStackGetCommand()).stackFrames[0]);
+    return contexts[0];
+  }
+  /**
+   * Execute a command entered in the debug console with the `:` prefix and return the text to be displayed.
+   */
+  private async executeReplCommand(commandLine: string, frameId?: number): Promise<string> {
+    const [ commandName = '', subCommandName = '', ...rest ] = commandLine.trim().split(/\s+/u);
+    const argument = rest.join(' ');
+    const thread = (typeof frameId === 'number' ? this.getThreadByFrameId(frameId) : undefined) ?? this.mainThread;
+    if (!thread || this.isClosedThread(thread)) {
+      throw Error('Error: No session.');
+    }
+
+    switch (commandName.toLowerCase()) {
+      case 'bp': {
+        if (subCommandName.toLowerCase() === 'list') {
+          const breakpoints = Array.from(this.threads.values()).flatMap((thread) => thread.breakpointManager.getAllBreakpoints()).filter((breakpoint) => !breakpoint.hidden);
+          const uniqueBreakpoints = uniqBy(breakpoints, (breakpoint) => `${breakpoint.filePath},${breakpoint.line},${breakpoint.unverifiedLine ?? ''},${breakpoint.unverifiedColumn ?? ''}`);
+          if (uniqueBreakpoints.length === 0) {
+            return 'No breakpoints.';
+          }
+          return uniqueBreakpoints.map((breakpoint) => {
+            const details = [
+              breakpoint.functionName ? `function: ${breakpoint.functionName}` : '',
+              breakpoint.condition ? `condition: ${breakpoint.condition}` : '',
+              breakpoint.hitCondition ? `hit condition: ${breakpoint.hitCondition}` : '',
+              breakpoint.logMessage ? `log: ${breakpoint.logMessage.trimEnd()}` : '',
+              `hits: ${breakpoint.hitCount}`,
+            ].filter((detail) => detail);
+            return `${breakpoint.filePath}:${breakpoint.line} [${breakpoint.kind}] ${details.join(', ')}`;
+          }).join('\n');
+        }
+        if (subCommandName.toLowerCase() === 'clear') {
+          // Removed from the editor, so that the breakpoints are unregistered by setBreakPointsRequest as usual
+          const targets = vscode.debug.breakpoints.filter((breakpoint) => {
+            if (!argument) {
+              return true;
+            }
+            if (!(breakpoint instanceof vscode.SourceBreakpoint)) {
+              return false;
+            }
+            const filePath = breakpoint.location.uri.fsPath;
+            return equalsIgnoreCase(path.basename(filePath), argument) || equalsIgnoreCase(filePath, path.resolve(path.dirname(this.config.program), argument));
+          });
+          vscode.debug.removeBreakpoints(targets);
+          return `${targets.length} breakpoint(s) removed.`;
+        }
+        break;
+      }
+      case 'hits': {
+        if (subCommandName.toLowerCase() === 'reset') {
+          this.threads.forEach((thread) => thread.breakpointManager.getAllBreakpoints().forEach((breakpoint) => {
+            breakpoint.hitCount = 0;
+          }));
+          return 'The hit counts of all breakpoints have been reset.';
         }
-        const stackFrame = this.variableManager!.getStackFrame(args.frameId);
-        if (!stackFrame) {
-          throw Error('Error: Could not get stack frame');
+        break;
+      }
+      case 'set': {
+        // e.g. `:set x = 5`, `:set obj.field := "text"`
+        const match = commandLine.trim().match(/^set\s+(?<name>.+?)\s*:?=\s*(?<value>.*)$/ui);
+        if (!match?.groups) {
+          break;
         }
-
-        const property = await this.session!.evaluate(propertyName, stackFrame.dbgpStackFrame);
-        if (!property) {
-          if (args.context === 'hover' && (await this.session!.fetchAllPropertyNames()).find((name) => equalsIgnoreCase(name, propertyName))) {
-            response.body = {
-              result: 'Not initialized',
-              type: 'undefined',
-              variablesReference: -1,
-            };
-            this.sendResponse(response);
-            return;
-          }
-          throw Error('not available');
+        const { name, value } = match.groups;
+        const stackFrame = typeof frameId === 'number' ? thread.variableManager.getStackFrame(frameId)?.dbgpStackFrame : undefined;
+        const assignedValue = await this.parseAssignedValue(thread.session, value, stackFrame);
+        if (!assignedValue) {
+          throw Error(`Error: ${assignableValueMessage}`);
         }
 
-        const variable = new Variable(this.session!, property);
-        response.body = {
-          result: formatProperty(property, this.session?.ahkVersion),
-          type: property.type,
-          variablesReference: variable.variablesReference,
-          indexedVariables: variable.indexedVariables,
-          namedVariables: variable.namedVariables,
-        };
-        this.sendResponse(response);
+        const fullName = await thread.session.resolveVariablePath(name, stackFrame);
+        const context = await this.findContextToAssign(thread.session, fullName, stackFrame);
+        const { success } = await thread.session.sendPropertySetCommand({ context, fullName, ...assignedValue });
+        if (!success) {
+          throw Error('Error: Rewriting failed. Probably read-only.');
+        }
+        const { properties } = await thread.session.sendPropertyGetCommand(context, fullName);
+        this.sendEvent(new InvalidatedEvent([ 'variables' ], thread.id));
+        return `${fullName} = ${formatProperty(properties[0], thread.session.ahkVersion)}`;
       }
-      catch (error: unknown) {
-        if (error instanceof dbgp.DbgpCriticalError) {
-          this.raisedCriticalError = true;
-          this.sendAnnounce(error.message, 'stderr');
-          this.sendTerminateEvent();
-          return;
+      case 'stack': {
+        const stackFrames = thread.currentStackFrames ?? await thread.variableManager.createStackFrames();
+        if (stackFrames.isIdleMode || stackFrames.length === 0) {
+          return 'No call stack. The script is idle.';
         }
-
-        if (args.context !== 'hover') {
-          const errorMessage = error instanceof Error ? error.message : 'User will never see this message.';
-          response.body = { result: errorMessage, variablesReference: 0 };
+        return stackFrames.map((stackFrame, i) => `#${i} ${stackFrame.name} (${stackFrame.source.path}:${stackFrame.line})`).join('\n');
+      }
+      case 'sources': {
+        return (await this.getAllLoadedSourcePath()).join('\n');
+      }
+      case 'trace': {
+        const mode = subCommandName.toLowerCase();
+        if (mode === 'on' || mode === 'off') {
+          this.traceLogger.enable = mode === 'on';
+          return `Trace logging is ${mode}.`;
         }
-        this.sendResponse(response);
+        return `Trace logging is ${this.traceLogger.enable ? 'on' : 'off'}.`;
       }
-    });
-  }
-  protected sourceRequest(response: DebugProtocol.SourceResponse, args: DebugProtocol.SourceArguments, request?: DebugProtocol.Request): void {
-    this.traceLogger.log('sourceRequest');
-    this.sendResponse(response);
+      case 'help':
+      case '': {
+        return [
+          ':bp list                  List the registered breakpoints and their hit counts',
+          ':bp clear [file]          Remove all breakpoints, or those of the file',
+          ':hits reset               Reset the hit counts of all breakpoints',
+          ':set <name> = <value>     Assign a primitive value or the value of another variable. Objects cannot be assigned',
+          ':stack                    Show the call stack',
+          ':sources                  List the loaded source files',
+          ':trace [on|off]           Switch the trace logging',
+        ].join('\n');
+      }
+      default: break;
+    }
+    throw Error(`Error: Unknown command \`:${commandLine.trim()}\`. Enter \`:help\` to see the available commands.`);
   }
-  // eslint-disable-next-line @typescript-eslint/require-await
-  protected async loadedSourcesRequest(response: DebugProtocol.LoadedSourcesResponse, args: DebugProtocol.LoadedSourcesArguments, request?: DebugProtocol.Request): Promise<void> {
-    this.traceLogger.log('loadedSourcesRequest');
-
-    if (!this.config.useLoadedScripts) {
-      this.sendResponse(response);
-      return;
+  private getThreadByFrameId(frameId: number): DebugThread | undefined {
+    const stackFrame = this.variableManager?.getStackFrame(frameId);
+    if (!stackFrame) {
+      return undefined;
     }
-
-    const loadedScriptPathList = await this.getAllLoadedSourcePath();
-
-    const sources: DebugProtocol.Source[] = [];
-    await Promise.all(loadedScriptPathList.map(async(filePath): Promise<void> => {
-      return new Promise((resolve) => {
-        stat(filePath, (err, stats) => {
-          if (err) {
-            // sources.push({ name: 'Failed to read' });
-            resolve();
-            return;
-          }
-
-          if (stats.isFile()) {
-            sources.push({ name: path.basename(filePath), path: filePath });
-          }
-          resolve();
-        });
-      });
-    }));
-
-    response.body = { sources };
-    this.sendResponse(response);
+    return Array.from(this.threads.values()).find((thread) => thread.session === stackFrame.session);
   }
   private async getAllLoadedSourcePath(): Promise<string[]> {
     if (0 < this.loadedSources.length) {
@@ -840,7 +1797,25 @@ export class AhkDebugSession extends LoggingDebugSession {
 
     return Promise.resolve(this.loadedSources);
   }
-  private async registerDebugDirective(): Promise<void> {
+  private async isLoadedSource(filePath: string): Promise<boolean> {
+    try {
+      const loadedSources = await this.getAllLoadedSourcePath();
+      return loadedSources.some((loadedSource) => equalsIgnoreCase(path.resolve(loadedSource), path.resolve(filePath)));
+    }
+    catch {
+      // If the includes cannot be extracted, leave the judgment to the engine
+      return true;
+    }
+  }
+  private async getAllFunctionDefinitions(): Promise<Array<FunctionDefinition & { filePath: string }>> {
+    const definitions: Array<FunctionDefinition & { filePath: string }> = [];
+    for await (const filePath of await this.getAllLoadedSourcePath()) {
+      const document = await vscode.workspace.openTextDocument(filePath);
+      definitions.push(...findFunctionDefinitions(this.session!.ahkVersion, document.getText()).map((definition) => ({ ...definition, filePath })));
+    }
+    return definitions;
+  }
+  private async registerDebugDirective(thread: DebugThread): Promise<void> {
     if (!this.config.useDebugDirective) {
       return;
     }
@@ -895,7 +1870,7 @@ export class AhkDebugSession extends LoggingDebugSession {
               logMessage,
               hidden: true,
             } as BreakpointAdvancedData;
-            await this.breakpointManager!.registerBreakpoint(fileUri, line, advancedData);
+            await thread.breakpointManager.registerBreakpoint(fileUri, line, advancedData);
           }
           else if (useOutputDirective && directiveType === 'output') {
             let logGroup: string | undefined;
@@ -918,7 +1893,7 @@ export class AhkDebugSession extends LoggingDebugSession {
               logGroup,
               hidden: true,
             } as BreakpointAdvancedData;
-            await this.breakpointManager!.registerBreakpoint(fileUri, line, advancedData);
+            await thread.breakpointManager.registerBreakpoint(fileUri, line, advancedData);
           }
           else if (useClearConsoleDirective && directiveType === 'clearconsole') {
             const advancedData = {
@@ -933,7 +1908,7 @@ export class AhkDebugSession extends LoggingDebugSession {
                 await vscode.commands.executeCommand('workbench.debug.panel.action.clearReplAction');
               },
             } as BreakpointAdvancedData;
-            await this.breakpointManager!.registerBreakpoint(fileUri, line, advancedData);
+            await thread.breakpointManager.registerBreakpoint(fileUri, line, advancedData);
           }
         }));
       }));
@@ -946,23 +1921,13 @@ export class AhkDebugSession extends LoggingDebugSession {
     // this.printLogMessage(`elapsedTime: ${DEBUG_s}s`);
   }
   private fixPathOfRuntimeError(errorMessage: string): string {
-    if (-1 < errorMessage.search(/--->\t\d+:/gmu)) {
-      const line = parseInt(errorMessage.match(/--->\t(?<line>\d+):/u)!.groups!.line, 10);
-      let fixed = errorMessage;
-      if (-1 < errorMessage.search(/^Error:\s{2}/gmu)) {
-        fixed = errorMessage.replace(/^(Error:\s{2})/gmu, `${this.config.program}:${line} : ==> `);
-      }
-      else if (-1 < errorMessage.search(/^Error in #include file /u)) {
-        fixed = errorMessage.replace(/Error in #include file "(.+)":\n\s*(.+)/gmu, `$1:${line} : ==> $2`);
-      }
-
-      fixed = fixed.replace(/\n(Specifically:)/u, '     $1');
-      fixed = fixed.substr(0, fixed.indexOf('Line#'));
-      return `${fixed.replace(/\s+$/u, '')}\n`;
+    const runtimeError = parseRuntimeError(errorMessage, this.config.program);
+    if (runtimeError) {
+      return formatRuntimeError(runtimeError);
     }
     return errorMessage.replace(/^(.+)\s\((\d+)\)\s:/gmu, `$1:$2 :`);
   }
-  private async findMatchedBreakpoint(lineBreakpoints: LineBreakpoints | null): Promise<Breakpoint | null> {
+  private async findMatchedBreakpoint(thread: DebugThread, lineBreakpoints: LineBreakpoints | null): Promise<Breakpoint | null> {
     if (!lineBreakpoints) {
       return null;
     }
@@ -974,37 +1939,65 @@ export class AhkDebugSession extends LoggingDebugSession {
       if (breakpoint.kind === 'breakpoint') {
         return breakpoint;
       }
-      if (breakpoint.kind === 'conditional breakpoint' && await this.evaluateCondition(breakpoint)) {
+      if (breakpoint.kind === 'conditional breakpoint' && await this.evaluateCondition(thread, breakpoint)) {
         return breakpoint;
       }
     }
     return null;
   }
-  private async checkContinuationStatus(response: dbgp.ContinuationResponse): Promise<void> {
+  private async findMatchedDataBreakpointChange(thread: DebugThread): Promise<DataBreakpointChange | undefined> {
+    for await (const change of await thread.dataBreakpointManager.findChanges()) {
+      if (await this.evaluateCondition(thread, change.breakpoint)) {
+        return change;
+      }
+    }
+    return undefined;
+  }
+  private async checkContinuationStatus(thread: DebugThread, response: dbgp.ContinuationResponse): Promise<void> {
     this.traceLogger.log('checkContinuationStatus');
-    if (this.isClosedSession) {
+    if (this.isClosedThread(thread)) {
       return;
     }
     if (response.status !== 'break') {
       return;
     }
-    if (this.isPaused) {
+    if (thread.isPaused) {
       return;
     }
     this.clearPerfTipsDecorations();
 
     // Prepare
-    this.prevStackFrames = this.currentStackFrames;
-    this.currentStackFrames = await this.variableManager!.createStackFrames();
-    if (this.currentStackFrames.isIdleMode) {
-      this.currentStackFrames = undefined;
-      await this.sendStoppedEvent('pause');
+    thread.prevStackFrames = thread.currentStackFrames;
+    thread.currentStackFrames = await thread.variableManager.createStackFrames();
+    if (thread.currentStackFrames.isIdleMode) {
+      thread.currentStackFrames = undefined;
+      // The thread that raised the runtime error has already exited
+      if (thread.runtimeError) {
+        thread.currentExceptionInfo = this.createRuntimeErrorInfo(thread.runtimeError);
+        await this.sendStoppedEvent(thread, 'exception');
+        return;
+      }
+      await this.sendStoppedEvent(thread, 'pause');
+      return;
+    }
+    thread.currentMetaVariableMap = this.createMetaVariables(thread, response);
+    const { source, line, name } = thread.currentStackFrames[0];
+
+    // Paused on exception
+    if (response.stopReason === 'exception') {
+      thread.currentExceptionInfo = await this.createExceptionInfo(thread, thread.currentStackFrames[0].dbgpStackFrame);
+      await this.sendStoppedEvent(thread, 'exception');
+      return;
+    }
+
+    // Paused by the break requested for a runtime error
+    if (thread.runtimeError) {
+      thread.currentExceptionInfo = this.createRuntimeErrorInfo(thread.runtimeError);
+      await this.sendStoppedEvent(thread, 'exception');
       return;
     }
-    this.currentMetaVariableMap = this.createMetaVariables(response);
-    const { source, line, name } = this.currentStackFrames[0];
 
-    const lineBreakpoints = this.breakpointManager!.getLineBreakpoints(source.path, line);
+    const lineBreakpoints = thread.breakpointManager.getLineBreakpoints(source.path, line);
     let stopReason: StopReason = 'step';
     if (lineBreakpoints) {
       lineBreakpoints.incrementHitCount();
@@ -1014,209 +2007,310 @@ export class AhkDebugSession extends LoggingDebugSession {
           : 'breakpoint';
       }
     }
-    else if (!this.pauseRequested) {
+    else if (!thread.pauseRequested) {
       const isSkipFile = this.config.skipFiles?.map((filePath) => URI.file(filePath).fsPath.toLowerCase()).includes(source.path.toLowerCase());
       if (isSkipFile) {
-        const dbgpResponse = await this.session!.sendStepIntoCommand();
-        this.autoExecuting = true;
-        this.checkContinuationStatus(dbgpResponse);
+        const dbgpResponse = await thread.session.sendStepIntoCommand();
+        thread.autoExecuting = true;
+        this.checkContinuationStatus(thread, dbgpResponse);
         return;
       }
       const currentFuncName = name.includes('()') ? name.replace('()', '') : '';
       const isSkipFunction = 0 < matcher(currentFuncName, this.config.skipFunctions ?? []).length;
       if (isSkipFunction) {
-        const dbgpResponse = await this.session!.sendStepIntoCommand();
-        this.autoExecuting = true;
-        this.checkContinuationStatus(dbgpResponse);
+        const dbgpResponse = await thread.session.sendStepIntoCommand();
+        thread.autoExecuting = true;
+        this.checkContinuationStatus(thread, dbgpResponse);
         return;
       }
     }
 
     // Pause
     if (response.commandName === 'break') {
-      this.currentMetaVariableMap.set('elapsedTime_ns', -1);
-      this.currentMetaVariableMap.set('elapsedTime_ms', -1);
-      this.currentMetaVariableMap.set('elapsedTime_s', -1);
-      await this.processActionpoint(lineBreakpoints);
-      await this.sendStoppedEvent('pause');
+      thread.currentMetaVariableMap.set('elapsedTime_ns', -1);
+      thread.currentMetaVariableMap.set('elapsedTime_ms', -1);
+      thread.currentMetaVariableMap.set('elapsedTime_s', -1);
+      await this.processActionpoint(thread, lineBreakpoints);
+      await this.sendStoppedEvent(thread, 'pause');
+      return;
+    }
+
+    // Paused on the step that emulates `run`. If no data breakpoint matches, it is processed in the same way as `run`
+    if (thread.isEmulatingRun && response.commandName === 'step_into') {
+      const change = await this.findMatchedDataBreakpointChange(thread);
+      if (change) {
+        await this.processActionpoint(thread, lineBreakpoints);
+        thread.currentMetaVariableMap.set('hitCount', String(change.breakpoint.hitCount));
+        this.sendAnnounce(`[Data breakpoint] ${change.breakpoint.fullName}: ${change.oldValue} → ${change.newValue}`);
+        await this.sendStoppedEvent(thread, 'data breakpoint');
+        return;
+      }
+
+      // Came back to the calling line from a function. The line has already been processed before the call, so it is skipped in the same way as a step
+      if (this.isComebackFromFunc(thread) && !thread.pauseRequested) {
+        lineBreakpoints?.decrementHitCount();
+        thread.autoExecuting = true;
+        const result = await this.sendRunCommand(thread);
+        await this.checkContinuationStatus(thread, result);
+        return;
+      }
+    }
+
+    // Paused on step of "Step Into Targets"
+    if (thread.stepInTarget && response.commandName.includes('step')) {
+      await this.processStepInTarget(thread, lineBreakpoints);
       return;
     }
 
     // Paused on step
-    if (response.commandName.includes('step')) {
-      await this.processStepExecution(response.commandName as dbgp.StepCommandName, lineBreakpoints);
+    if (!thread.isEmulatingRun && response.commandName.includes('step')) {
+      await this.processStepExecution(thread, response.commandName as dbgp.StepCommandName, lineBreakpoints);
+      return;
+    }
+
+    // Reached the cursor of "Run to Cursor". Breakpoints on the same line are processed as usual, but it stops even if their conditions do not match
+    const runToCursorBreakpoint = thread.runToCursorBreakpoint;
+    if (runToCursorBreakpoint && equalsIgnoreCase(URI.parse(runToCursorBreakpoint.fileUri).fsPath, source.path) && runToCursorBreakpoint.line === line) {
+      thread.runToCursorBreakpoint = undefined;
+      await this.processActionpoint(thread, lineBreakpoints);
+      const matchedBreakpoint = await this.findMatchedBreakpoint(thread, lineBreakpoints);
+      if (matchedBreakpoint) {
+        thread.currentMetaVariableMap.set('hitCount', String(matchedBreakpoint.hitCount));
+      }
+      await this.sendStoppedEvent(thread, matchedBreakpoint ? stopReason : 'step');
       return;
     }
 
     // Paused on breakpoint
-    await this.processActionpoint(lineBreakpoints);
-    const matchedBreakpoint = await this.findMatchedBreakpoint(lineBreakpoints);
+    await this.processActionpoint(thread, lineBreakpoints);
+    const matchedBreakpoint = await this.findMatchedBreakpoint(thread, lineBreakpoints);
     if (matchedBreakpoint) {
-      this.currentMetaVariableMap.set('hitCount', String(matchedBreakpoint.hitCount));
-      await this.sendStoppedEvent(stopReason);
+      thread.currentMetaVariableMap.set('hitCount', String(matchedBreakpoint.hitCount));
+      await this.sendStoppedEvent(thread, matchedBreakpoint.functionName ? 'function breakpoint' : stopReason);
       return;
     }
 
     // Interruptive pause
-    if (this.pauseRequested) {
-      this.currentMetaVariableMap.set('elapsedTime_ns', -1);
-      this.currentMetaVariableMap.set('elapsedTime_ms', -1);
-      this.currentMetaVariableMap.set('elapsedTime_s', -1);
-      await this.session!.sendBreakCommand();
-      await this.sendStoppedEvent('pause');
+    if (thread.pauseRequested) {
+      thread.currentMetaVariableMap.set('elapsedTime_ns', -1);
+      thread.currentMetaVariableMap.set('elapsedTime_ms', -1);
+      thread.currentMetaVariableMap.set('elapsedTime_s', -1);
+      await thread.session.sendBreakCommand();
+      await this.sendStoppedEvent(thread, 'pause');
       return;
     }
 
     // Re-check in case an interruption has occurred
     // eslint-disable-next-line @typescript-eslint/no-unnecessary-condition
-    if (this.isPaused) {
+    if (thread.isPaused) {
       return;
     }
 
     // Auto execution
-    this.autoExecuting = true;
-    const result = await this.session!.sendRunCommand();
-    await this.checkContinuationStatus(result);
+    thread.autoExecuting = true;
+    const result = await this.sendRunCommand(thread);
+    await this.checkContinuationStatus(thread, result);
+  }
+  /**
+   * Step into the calls of the line one by one, stepping out of those that are not the target, until the frame of the target function is entered.
+   * Built-in functions have no frame, so if the target is one of them, it stops at the line following the calling line.
+   */
+  private async processStepInTarget(thread: DebugThread, lineBreakpoints: LineBreakpoints | null): Promise<void> {
+    if (!thread.stepInTarget || !thread.currentMetaVariableMap || thread.currentStackFrames?.isIdleMode) {
+      throw Error(`This message shouldn't appear.`);
+    }
+
+    const target = thread.stepInTarget;
+    const currentStackFrames = thread.currentStackFrames!;
+    const { source, line, name } = currentStackFrames[0];
+    const matchedBreakpoint = await this.findMatchedBreakpoint(thread, lineBreakpoints);
+    if (matchedBreakpoint) {
+      thread.currentMetaVariableMap.set('hitCount', String(matchedBreakpoint.hitCount));
+    }
+    const stopReason: StopReason = matchedBreakpoint?.hidden ? 'hidden breakpoint' : (matchedBreakpoint ? 'breakpoint' : 'step');
+
+    // Entered a function called from the line
+    if (target.depth < currentStackFrames.length) {
+      await this.processActionpoint(thread, lineBreakpoints);
+
+      const functionName = name.replace('()', '').split('.').pop() ?? '';
+      if (equalsIgnoreCase(functionName, target.name) || matchedBreakpoint || thread.pauseRequested) {
+        await this.sendStoppedEvent(thread, thread.pauseRequested && !matchedBreakpoint ? 'pause' : stopReason);
+        return;
+      }
+
+      thread.autoExecuting = true;
+      const result = await thread.session.sendContinuationCommand('step_out');
+      await this.checkContinuationStatus(thread, result);
+      return;
+    }
+
+    // Came back to the calling line, so step into the next call
+    if (target.depth === currentStackFrames.length && equalsIgnoreCase(source.path, target.path) && line === target.line && !thread.pauseRequested) {
+      // Offset the {hitCount} increment since it is the same execution of the line
+      lineBreakpoints?.decrementHitCount();
+
+      thread.autoExecuting = true;
+      const result = await thread.session.sendContinuationCommand('step_into');
+      await this.checkContinuationStatus(thread, result);
+      return;
+    }
+
+    // Left the calling line without entering the target, or a pause was requested
+    await this.processActionpoint(thread, lineBreakpoints);
+    await this.sendStoppedEvent(thread, thread.pauseRequested && !matchedBreakpoint ? 'pause' : stopReason);
   }
-  private async processStepExecution(stepType: dbgp.StepCommandName, lineBreakpoints: LineBreakpoints | null): Promise<void> {
-    if (!this.currentMetaVariableMap || this.currentStackFrames?.isIdleMode) {
+  /**
+   * Whether the step came back to the calling line from a function, i.e. the second stop on the same execution of the line.
+   */
+  private isComebackFromFunc(thread: DebugThread): boolean {
+    const { prevStackFrames, currentStackFrames } = thread;
+    return Boolean(prevStackFrames && currentStackFrames && currentStackFrames.length < prevStackFrames.length);
+  }
+  private async processStepExecution(thread: DebugThread, stepType: dbgp.StepCommandName, lineBreakpoints: LineBreakpoints | null): Promise<void> {
+    if (!thread.currentMetaVariableMap || thread.currentStackFrames?.isIdleMode) {
       throw Error(`This message shouldn't appear.`);
     }
 
     // Fix a bug that prevented AutoExec thread, Timer thread, from getting proper information when there was more than one call stack
-    const prevStackFrames: StackFrames | undefined = this.prevStackFrames?.slice();
-    const currentStackFrames = this.currentStackFrames!.slice();
+    const prevStackFrames: StackFrames | undefined = thread.prevStackFrames?.slice();
+    const currentStackFrames = thread.currentStackFrames!.slice();
     if (prevStackFrames && prevStackFrames.length === 1 && 1 < currentStackFrames.length) {
       currentStackFrames.pop();
       currentStackFrames.push(prevStackFrames[0]);
     }
 
     let stopReason: StopReason = 'step';
-    const matchedBreakpoint = await this.findMatchedBreakpoint(lineBreakpoints);
+    const matchedBreakpoint = await this.findMatchedBreakpoint(thread, lineBreakpoints);
     if (matchedBreakpoint) {
-      this.currentMetaVariableMap.set('hitCount', String(matchedBreakpoint.hitCount));
-      stopReason = matchedBreakpoint.hidden
-        ? 'hidden breakpoint'
-        : 'breakpoint';
+      thread.currentMetaVariableMap.set('hitCount', String(matchedBreakpoint.hitCount));
+      if (matchedBreakpoint.hidden) {
+        stopReason = 'hidden breakpoint';
+      }
+      else if (matchedBreakpoint.functionName) {
+        stopReason = 'function breakpoint';
+      }
+      else {
+        stopReason = 'breakpoint';
+      }
     }
 
-    const comebackFromFunc = prevStackFrames && currentStackFrames.length < prevStackFrames.length;
-    if (comebackFromFunc) {
+    if (this.isComebackFromFunc(thread)) {
       // Offset the {hitCount} increment if it comes back from a function
       lineBreakpoints?.decrementHitCount();
       if (matchedBreakpoint) {
-        this.currentMetaVariableMap.set('hitCount', String(matchedBreakpoint.hitCount));
+        thread.currentMetaVariableMap.set('hitCount', String(matchedBreakpoint.hitCount));
       }
       if (stepType === 'step_over') {
-        await this.sendStoppedEvent(stopReason);
+        await this.sendStoppedEvent(thread, stopReason);
         return;
       }
     }
     else {
-      await this.processActionpoint(lineBreakpoints);
+      await this.processActionpoint(thread, lineBreakpoints);
     }
 
     // step_into is always stop
     if (stepType === 'step_into') {
-      await this.sendStoppedEvent(stopReason);
+      await this.sendStoppedEvent(thread, stopReason);
       return;
     }
 
-    const executeByUser = !this.stackFramesWhenStepOut && !this.stackFramesWhenStepOver;
+    const executeByUser = !thread.stackFramesWhenStepOut && !thread.stackFramesWhenStepOver;
     if (executeByUser) {
       // Normal step
       if (!lineBreakpoints) {
-        await this.sendStoppedEvent(stopReason);
+        await this.sendStoppedEvent(thread, stopReason);
         return;
       }
 
       // Pause on breakpoint
       if (matchedBreakpoint) {
-        await this.sendStoppedEvent(stopReason);
+        await this.sendStoppedEvent(thread, stopReason);
         return;
       }
 
       // Prepare advanced step
       if (prevStackFrames) {
         if (stepType === 'step_out') {
-          this.stackFramesWhenStepOut = prevStackFrames.slice();
+          thread.stackFramesWhenStepOut = prevStackFrames.slice();
         }
         else { // step_over
-          this.stackFramesWhenStepOver = prevStackFrames.slice();
+          thread.stackFramesWhenStepOver = prevStackFrames.slice();
         }
       }
     }
 
     // Advanced step
-    this.autoExecuting = true;
-    if (this.stackFramesWhenStepOut) {
+    thread.autoExecuting = true;
+    if (thread.stackFramesWhenStepOut) {
       // If go back to the same line in a loop
       if (prevStackFrames && equalsIgnoreCase(currentStackFrames[0].source.path, prevStackFrames[0].source.path) && currentStackFrames[0].line === prevStackFrames[0].line) {
         if (matchedBreakpoint) {
-          await this.sendStoppedEvent(stopReason);
+          await this.sendStoppedEvent(thread, stopReason);
           return;
         }
       }
-      else if (equalsIgnoreCase(this.stackFramesWhenStepOut[0].source.path, currentStackFrames[0].source.path) && this.stackFramesWhenStepOut[0].line === currentStackFrames[0].line) {
+      else if (equalsIgnoreCase(thread.stackFramesWhenStepOut[0].source.path, currentStackFrames[0].source.path) && thread.stackFramesWhenStepOut[0].line === currentStackFrames[0].line) {
         // One more breath. The final adjustment
-        const result = await this.session!.sendContinuationCommand('step_out');
-        await this.checkContinuationStatus(result);
+        const result = await thread.session.sendContinuationCommand('step_out');
+        await this.checkContinuationStatus(thread, result);
         return;
       }
 
       // Complated step out
-      if (this.currentStackFrames!.length < this.stackFramesWhenStepOut.length) {
-        await this.sendStoppedEvent(stopReason);
+      if (thread.currentStackFrames!.length < thread.stackFramesWhenStepOut.length) {
+        await this.sendStoppedEvent(thread, stopReason);
         return;
       }
     }
-    else if (this.stackFramesWhenStepOver) {
+    else if (thread.stackFramesWhenStepOver) {
       // If go back to the same line in a loop
-      if (this.stackFramesWhenStepOver.length === currentStackFrames.length) {
+      if (thread.stackFramesWhenStepOver.length === currentStackFrames.length) {
         if (prevStackFrames && equalsIgnoreCase(currentStackFrames[0].source.path, prevStackFrames[0].source.path) && currentStackFrames[0].line === prevStackFrames[0].line) {
-          await this.sendStoppedEvent(stopReason);
+          await this.sendStoppedEvent(thread, stopReason);
           return;
         }
       }
 
       // One more breath. The final adjustment
-      if (equalsIgnoreCase(this.stackFramesWhenStepOver[0].source.path, currentStackFrames[0].source.path) && this.stackFramesWhenStepOver[0].line === currentStackFrames[0].line) {
-        const result = await this.session!.sendContinuationCommand('step_over');
-        await this.checkContinuationStatus(result);
+      if (equalsIgnoreCase(thread.stackFramesWhenStepOver[0].source.path, currentStackFrames[0].source.path) && thread.stackFramesWhenStepOver[0].line === currentStackFrames[0].line) {
+        const result = await thread.session.sendContinuationCommand('step_over');
+        await this.checkContinuationStatus(thread, result);
         return;
       }
 
       // Complated step over
-      if (this.stackFramesWhenStepOver.length === currentStackFrames.length) {
-        await this.sendStoppedEvent(stopReason);
+      if (thread.stackFramesWhenStepOver.length === currentStackFrames.length) {
+        await this.sendStoppedEvent(thread, stopReason);
         return;
       }
     }
 
     // Pause on breakpoint
     if (matchedBreakpoint) {
-      await this.sendStoppedEvent(stopReason);
+      await this.sendStoppedEvent(thread, stopReason);
       return;
     }
 
     // Interruptive pause
-    if (this.pauseRequested) {
-      this.currentMetaVariableMap.set('elapsedTime_ns', -1);
-      this.currentMetaVariableMap.set('elapsedTime_ms', -1);
-      this.currentMetaVariableMap.set('elapsedTime_s', -1);
-      await this.session!.sendBreakCommand();
-      await this.sendStoppedEvent('pause');
+    if (thread.pauseRequested) {
+      thread.currentMetaVariableMap.set('elapsedTime_ns', -1);
+      thread.currentMetaVariableMap.set('elapsedTime_ms', -1);
+      thread.currentMetaVariableMap.set('elapsedTime_s', -1);
+      await thread.session.sendBreakCommand();
+      await this.sendStoppedEvent(thread, 'pause');
       return;
     }
-    if (this.isPaused) {
+    if (thread.isPaused) {
       return;
     }
 
-    const result = await this.session!.sendContinuationCommand('step_out');
-    await this.checkContinuationStatus(result);
+    const result = await thread.session.sendContinuationCommand('step_out');
+    await this.checkContinuationStatus(thread, result);
   }
-  private async processActionpoint(lineBreakpoints: LineBreakpoints | null): Promise<void> {
-    if (!this.currentStackFrames || this.currentStackFrames.length === 0) {
+  private async processActionpoint(thread: DebugThread, lineBreakpoints: LineBreakpoints | null): Promise<void> {
+    if (!thread.currentStackFrames || thread.currentStackFrames.length === 0) {
       throw Error(`This message shouldn't appear.`);
     }
     if (!lineBreakpoints) {
@@ -1227,14 +2321,84 @@ export class AhkDebugSession extends LoggingDebugSession {
     }
 
     for await (const breakpoint of lineBreakpoints) {
-      if (breakpoint.action && await this.evaluateCondition(breakpoint)) {
+      if (breakpoint.action && await this.evaluateCondition(thread, breakpoint)) {
         await breakpoint.action();
       }
-      if (breakpoint.logMessage && await this.evaluateCondition(breakpoint)) {
-        await this.printLogMessage(breakpoint, 'stdout');
+      if (breakpoint.logMessage && await this.evaluateCondition(thread, breakpoint)) {
+        await this.printLogMessage(thread, breakpoint, 'stdout');
       }
     }
   }
+  private async createExceptionInfo(thread: DebugThread, stackFrame: dbgp.StackFrame): Promise<ExceptionInfo> {
+    // The engine does not tell whether the exception is caught, but only uncaught ones break unless the `caught` filter is enabled
+    const breakMode: DebugProtocol.ExceptionBreakMode = this.exceptionBreakpointFilters.includes('caught') ? 'always' : 'unhandled';
+    const exception = await thread.session.fetchException(stackFrame).catch(() => undefined);
+    if (!exception) {
+      return { exceptionId: 'Error', breakMode };
+    }
+    if (exception instanceof dbgp.PrimitiveProperty) {
+      return { exceptionId: exception.type, description: exception.value, breakMode };
+    }
+
+    // Error objects have Message, What, Extra, File, Line and Stack as own properties
+    const exceptionObject = exception as dbgp.ObjectProperty;
+    const getValue = (name: string): string | undefined => {
+      const child = exceptionObject.children.find((child) => equalsIgnoreCase(child.name, name));
+      return child instanceof dbgp.PrimitiveProperty && child.value !== '' ? child.value : undefined;
+    };
+    const message = getValue('Message');
+    const what = getValue('What');
+    const extra = getValue('Extra');
+    const description = [
+      message,
+      what ? `What: ${what}` : undefined,
+      extra ? `Specifically: ${extra}` : undefined,
+    ].filter((line) => line).join('\n');
+
+    return {
+      exceptionId: exceptionObject.className,
+      description,
+      breakMode,
+      details: {
+        message,
+        typeName: exceptionObject.className,
+        evaluateName: exceptionObject.fullName,
+        stackTrace: getValue('Stack'),
+      },
+    };
+  }
+  private createRuntimeErrorInfo(runtimeError: RuntimeError): ExceptionInfo {
+    const { className, message, specifics, stack } = runtimeError;
+    const description = [
+      message,
+      specifics ? `Specifically: ${specifics}` : undefined,
+    ].filter((line) => line).join('\n');
+
+    return {
+      exceptionId: className,
+      description,
+      breakMode: 'unhandled',
+      details: {
+        message,
+        typeName: className,
+        stackTrace: stack.map((frame) => [ `${frame.file}:${frame.line}`, frame.name === undefined ? '' : ` : [${frame.name}]`, frame.code ? ` ${frame.code}` : '' ].join('')).join('\n'),
+      },
+    };
+  }
+  /**
+   * AutoHotkey does not break on runtime errors by itself unless the exception breakpoints of v2 are enabled, so the break is requested when the error is output.
+   */
+  private async breakOnRuntimeError(thread: DebugThread, runtimeError: RuntimeError): Promise<void> {
+    if (thread.isPaused || thread.runtimeError || this.isClosedThread(thread)) {
+      return;
+    }
+
+    thread.runtimeError = runtimeError;
+    const result = await thread.session.sendContinuationCommand('break').catch(() => undefined);
+    if (result) {
+      this.checkContinuationStatus(thread, result);
+    }
+  }
   private sendAnnounce(message: string, category: 'stdout' | 'stderr' | 'console' = 'console', level?: AnnounceLevel): void {
     const announceLevelOrder = [ false, 'error', true, 'detail' ];
     if (this.config.useAnnounce === false) {
@@ -1273,32 +2437,94 @@ export class AhkDebugSession extends LoggingDebugSession {
     this.isTerminateRequested = true;
     this.sendEvent(new TerminatedEvent());
   }
-  private async sendStoppedEvent(stopReason: StopReason): Promise<void> {
+  private async sendStoppedEvent(thread: DebugThread, stopReason: StopReason): Promise<void> {
     this.traceLogger.log('sendStoppedEvent');
-    if (this.isPaused) {
+    if (thread.isPaused) {
+      return;
+    }
+
+    thread.stackFramesWhenStepOut = undefined;
+    thread.stackFramesWhenStepOver = undefined;
+    thread.stepInTarget = undefined;
+    // The targets are requested for each stop, so the ones of the previous stop are no longer used
+    this.stepInTargets.clear();
+    this.gotoTargets.clear();
+    thread.runtimeError = undefined;
+    thread.isEmulatingRun = false;
+    thread.pauseRequested = false;
+    thread.isPaused = true;
+    thread.valueChangeTracker.nextStop();
+    thread.autoExecuting = false;
+
+    // Stopped before reaching the cursor of "Run to Cursor", so the one-shot breakpoint is no longer needed
+    if (thread.runToCursorBreakpoint) {
+      const { id, temporary } = thread.runToCursorBreakpoint;
+      thread.runToCursorBreakpoint = undefined;
+      if (temporary) {
+        await thread.session.sendBreakpointRemoveCommand(id).catch(() => undefined);
+      }
+    }
+
+    if (thread.currentMetaVariableMap) {
+      await this.displayPerfTips(thread, thread.currentMetaVariableMap);
+    }
+    this.sendEvent(new StoppedEvent(stopReason, thread.session.id));
+    // Recorded after the stop is notified, so as not to delay it
+    this.recordStopHistory(thread, stopReason);
+  }
+  /**
+   * Record the call stack and variables of the current stop, since they cannot be inspected after the execution is resumed.
+   * If the execution is resumed before the recording is finished, the stop is not recorded.
+   */
+  private async recordStopHistory(thread: DebugThread, stopReason: StopReason): Promise<void> {
+    if (!this.config.useStopHistory || !thread.currentStackFrames || thread.currentStackFrames.isIdleMode) {
       return;
     }
 
-    this.stackFramesWhenStepOut = undefined;
-    this.stackFramesWhenStepOver = undefined;
-    this.pauseRequested = false;
-    this.isPaused = true;
-    this.autoExecuting = false;
+    const { limit, depth } = this.config.useStopHistory;
+    if (!this.stopHistory) {
+      this.stopHistory = new StopHistory(limit);
+    }
+
+    try {
+      const { ahkVersion } = thread.session;
+      const stackFrames = thread.currentStackFrames;
+      const categories: StopSnapshot['categories'] = [];
+      for await (const category of await thread.variableManager.createCategories(stackFrames[0].id)) {
+        if (!thread.isPaused || thread.currentStackFrames !== stackFrames) {
+          return;
+        }
+        const variables = await category.createChildren(Math.max(depth, 1));
+        categories.push({ name: category.name, variables: variables.map((variable) => createVariableSnapshot(variable.property, ahkVersion, depth)) });
+      }
 
-    if (this.currentMetaVariableMap) {
-      await this.displayPerfTips(this.currentMetaVariableMap);
+      const metaVariables = Array.from(thread.currentMetaVariableMap?.entries() ?? [])
+        .filter(([ , value ]) => isPrimitive(value))
+        .map(([ name, value ]) => ({ name, value: String(value) }));
+
+      this.stopHistory.add({
+        threadId: thread.id,
+        reason: stopReason,
+        time: now(),
+        stackFrames: stackFrames.map((stackFrame) => ({ name: stackFrame.name, path: stackFrame.source.path ?? '', line: stackFrame.line })),
+        categories,
+        metaVariables,
+      });
+      this.sendEvent(new Event('stopHistoryUpdated'));
+    }
+    catch (error: unknown) {
+      this.traceLogger.log(`Failed to record the stop history: ${error instanceof Error ? error.message : String(error)}`);
     }
-    this.sendEvent(new StoppedEvent(stopReason, this.session!.id));
   }
-  private createMetaVariables(response: dbgp.ContinuationResponse): MetaVariableValueMap {
+  private createMetaVariables(thread: DebugThread, response: dbgp.ContinuationResponse): MetaVariableValueMap {
     const metaVariables = new MetaVariableValueMap();
     metaVariables.set('now', now());
     metaVariables.set('hitCount', -1);
 
-    if (this.currentMetaVariableMap) {
-      const elapsedTime_ns = parseFloat(String(this.currentMetaVariableMap.get('elapsedTime_ns'))!) + response.elapsedTime.ns;
-      const elapsedTime_ms = parseFloat(String(this.currentMetaVariableMap.get('elapsedTime_ms')!)) + response.elapsedTime.ms;
-      const elapsedTime_s = parseFloat(String(this.currentMetaVariableMap.get('elapsedTime_s')!)) + response.elapsedTime.s;
+    if (thread.currentMetaVariableMap) {
+      const elapsedTime_ns = parseFloat(String(thread.currentMetaVariableMap.get('elapsedTime_ns'))!) + response.elapsedTime.ns;
+      const elapsedTime_ms = parseFloat(String(thread.currentMetaVariableMap.get('elapsedTime_ms')!)) + response.elapsedTime.ms;
+      const elapsedTime_s = parseFloat(String(thread.currentMetaVariableMap.get('elapsedTime_s')!)) + response.elapsedTime.s;
       metaVariables.set('elapsedTime_ns', toFixed(elapsedTime_ns, 3));
       metaVariables.set('elapsedTime_ms', toFixed(elapsedTime_ms, 3));
       metaVariables.set('elapsedTime_s', toFixed(elapsedTime_s, 3));
@@ -1309,12 +2535,12 @@ export class AhkDebugSession extends LoggingDebugSession {
       metaVariables.set('elapsedTime_s', toFixed(response.elapsedTime.s, 3));
     }
 
-    const { id: frameId, name: thisCallstack } = this.currentStackFrames![0];
+    const { id: frameId, name: thisCallstack } = thread.currentStackFrames![0];
     metaVariables.set('thisCallstack', thisCallstack);
     this.metaVaribalesByFrameId.set(frameId, metaVariables);
 
     const categories = new LazyPromise<Categories>((resolve) => {
-      this.variableManager!.createCategories(-1).then((result) => {
+      thread.variableManager.createCategories(-1).then((result) => {
         resolve(result);
       });
     });
@@ -1328,7 +2554,7 @@ export class AhkDebugSession extends LoggingDebugSession {
       }));
     }
 
-    const callstack = Object.fromEntries(this.currentStackFrames?.map((stackFrame, i) => {
+    const callstack = Object.fromEntries(thread.currentStackFrames?.map((stackFrame, i) => {
       return [
         `[${i + 1}]`,
         {
@@ -1352,8 +2578,8 @@ export class AhkDebugSession extends LoggingDebugSession {
     });
     return metaVariables;
   }
-  private async evaluateCondition(breakpoint: Breakpoint): Promise<boolean> {
-    if (!this.currentMetaVariableMap) {
+  private async evaluateCondition(thread: DebugThread, breakpoint: Pick<Breakpoint, 'condition' | 'hitCondition' | 'hitCount'>): Promise<boolean> {
+    if (!thread.currentMetaVariableMap) {
       throw Error(`This message shouldn't appear.`);
     }
 
@@ -1363,12 +2589,12 @@ export class AhkDebugSession extends LoggingDebugSession {
 
     try {
       const { condition, hitCondition, hitCount } = breakpoint;
-      const metaVariable = new MetaVariableValueMap(this.currentMetaVariableMap.entries());
+      const metaVariable = new MetaVariableValueMap(thread.currentMetaVariableMap.entries());
       metaVariable.set('hitCount', hitCount);
 
       let conditionResult = false, hitConditionResult = false;
       if (condition) {
-        conditionResult = await this.conditionalEvaluator.eval(condition, metaVariable);
+        conditionResult = await thread.conditionalEvaluator.eval(condition, metaVariable);
       }
       if (hitCondition) {
         const match = hitCondition.match(/^\s*(?<operator><=|<|>=|>|==|=|%)?\s*(?<number>\d+)\s*$/u);
@@ -1417,17 +2643,31 @@ export class AhkDebugSession extends LoggingDebugSession {
 
     return false;
   }
-  private async printLogMessage(breakpoint: Breakpoint, logCategory?: LogCategory): Promise<void> {
-    if (!this.currentMetaVariableMap) {
+  private async printLogMessage(thread: DebugThread, breakpoint: Breakpoint, logCategory?: LogCategory): Promise<void> {
+    if (!thread.currentMetaVariableMap) {
       throw Error(`This message shouldn't appear.`);
     }
 
     const { logMessage, logGroup = undefined, hitCount } = breakpoint;
-    const metaVariables = new MetaVariableValueMap(this.currentMetaVariableMap.entries());
+    const metaVariables = new MetaVariableValueMap(thread.currentMetaVariableMap.entries());
     metaVariables.set('hitCount', hitCount);
 
+    // If the evaluation takes time, e.g. a large depth is specified, it can be cancelled from the progress notification
+    const progressId = `logpoint-${breakpoint.id}-${String(hitCount)}`;
+    const tokenSource = this.createCancellationTokenSource(progressId);
+    let isProgressStarted = false;
+    const progressTimer = setTimeout(() => {
+      if (!this.supportsProgressReporting) {
+        return;
+      }
+      isProgressStarted = true;
+      const event: DebugProtocol.ProgressStartEvent = new ProgressStartEvent(progressId, 'Evaluating the log message', logMessage.trimEnd());
+      event.body.cancellable = true;
+      this.sendEvent(event);
+    }, 1000);
+
     try {
-      const evalucatedMessages = await this.evaluateLog(logMessage, metaVariables, breakpoint);
+      const evalucatedMessages = await this.evaluateLog(thread, logMessage, metaVariables, breakpoint, tokenSource.token);
       const stringMessages = evalucatedMessages.filter((message) => typeof message === 'string' || typeof message === 'number') as string[];
       const objectMessages = evalucatedMessages.filter((message) => typeof message === 'object') as Array<Scope | Category | Categories | Variable>;
       if (objectMessages.length === 0) {
@@ -1447,7 +2687,7 @@ export class AhkDebugSession extends LoggingDebugSession {
       }
 
       const variableGroup = new MetaVariable(label, objectMessages.map((obj) => new MetaVariable(obj.name, obj)));
-      const variablesReference = this.variableManager!.createVariableReference(variableGroup);
+      const variablesReference = thread.variableManager.createVariableReference(variableGroup);
       this.logObjectsMap.set(variablesReference, variableGroup);
 
       const event: DebugProtocol.OutputEvent = new OutputEvent(label, logCategory);
@@ -1456,14 +2696,30 @@ export class AhkDebugSession extends LoggingDebugSession {
       this.sendEvent(event);
     }
     catch (error: unknown) {
+      if (error instanceof CancellationError) {
+        this.sendAnnounce(`[${breakpoint.filePath}:${breakpoint.unverifiedLine ?? breakpoint.line}] The output of the log was cancelled.`, 'stderr');
+        return;
+      }
       if (error instanceof dbgp.DbgpCriticalError) {
         this.raisedCriticalError = true;
         this.sendAnnounce(error.message, 'stderr');
         this.sendTerminateEvent();
+        return;
+      }
+
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      this.traceLogger.log(`Failed to output the log. ${errorMessage}`);
+      this.sendAnnounce(`[${breakpoint.filePath}:${breakpoint.unverifiedLine ?? breakpoint.line}] Failed to output the log. ${errorMessage}`, 'stderr');
+    }
+    finally {
+      clearTimeout(progressTimer);
+      this.cancellationTokenSources.delete(progressId);
+      if (isProgressStarted) {
+        this.sendEvent(new ProgressEndEvent(progressId));
       }
     }
   }
-  private async evaluateLog(format: string, metaVariables = this.currentMetaVariableMap, logpoint?: Breakpoint): Promise<MetaVariableValue[]> {
+  private async evaluateLog(thread: DebugThread, format: string, metaVariables = thread.currentMetaVariableMap, logpoint?: Breakpoint, token?: CancellationToken): Promise<MetaVariableValue[]> {
     const unescapeLogMessage = (string: string): string => {
       return string.replace(/\\([{}])/gu, '$1');
     };
@@ -1473,8 +2729,21 @@ export class AhkDebugSession extends LoggingDebugSession {
       return [ unescapeLogMessage(format) ];
     }
 
-    const timeout_ms = 30 * 1000;
-    const timeout = (): void => {
+    // The commands fetching deeply are limited by `deepCommandTimeout` of the session, and the others by `commandTimeout`
+    const handleError = (error: unknown): undefined => {
+      // A cancelled log is not a communication error, so the debugging continues
+      if (error instanceof CancellationError) {
+        throw error;
+      }
+      if (error instanceof dbgp.DbgpCriticalError) {
+        this.raisedCriticalError = true;
+        this.sendAnnounce(error.message, 'stderr');
+        this.sendTerminateEvent();
+        return undefined;
+      }
+      if (!(error instanceof dbgp.DbgpTimeoutError)) {
+        throw error;
+      }
       this.isTimeout = true;
 
       // If the message is output in disconnectRequest, it may not be displayed, so output it here
@@ -1494,6 +2763,7 @@ export class AhkDebugSession extends LoggingDebugSession {
       if (typeof match.groups === 'undefined') {
         break;
       }
+      throwIfCancelled(token);
 
       if (currentIndex < match.index) {
         message += format.slice(currentIndex, match.index);
@@ -1509,7 +2779,7 @@ export class AhkDebugSession extends LoggingDebugSession {
           const _metaVariable = (metaVariable instanceof Promise ? await metaVariable : metaVariable) as MetaVariable;
           if ('loadChildren' in _metaVariable) {
             const maxDepth = metaVariableNameDepth ? parseInt(metaVariableNameDepth, 10) : 1;
-            await timeoutPromise(_metaVariable.loadChildren(logpoint ? maxDepth : 1), timeout_ms).catch(timeout);
+            await raceCancellation(_metaVariable.loadChildren(logpoint ? maxDepth : 1), token).catch(handleError);
             results.push(_metaVariable);
           }
         }
@@ -1520,26 +2790,22 @@ export class AhkDebugSession extends LoggingDebugSession {
       else {
         const maxDepth = variableNameDepth ? parseInt(variableNameDepth, 10) : 1;
 
-        const property = await timeoutPromise(this.session!.evaluate(variableName, undefined, logpoint ? maxDepth : 1), timeout_ms).catch((error: unknown) => {
-          if (error instanceof dbgp.DbgpCriticalError) {
-            this.raisedCriticalError = true;
-            this.sendAnnounce(error.message, 'stderr');
-            this.sendTerminateEvent();
-            return;
-          }
-          timeout();
-        });
-        if (property) {
+        const property = await raceCancellation(thread.session.evaluate(variableName, undefined, logpoint ? maxDepth : 1), token).catch(handleError);
+        const formatted = property ? await thread.variableFormatter.format(property) : undefined;
+        if (formatted !== undefined) {
+          message += formatted;
+        }
+        else if (property) {
           if (property instanceof dbgp.ObjectProperty) {
             if (message !== '') {
               results.push(unescapeLogMessage(message));
               message = '';
             }
 
-            results.push(new Variable(this.session!, property));
+            results.push(new Variable(thread.session, property));
           }
           else if (property instanceof dbgp.PrimitiveProperty) {
-            message += escapeAhk(property.value, this.session!.ahkVersion);
+            message += escapeAhk(property.value, thread.session.ahkVersion);
           }
         }
         else {
@@ -1566,17 +2832,17 @@ export class AhkDebugSession extends LoggingDebugSession {
 
     return results;
   }
-  private async displayPerfTips(metaVariableMap: MetaVariableValueMap): Promise<void> {
+  private async displayPerfTips(thread: DebugThread, metaVariableMap: MetaVariableValueMap): Promise<void> {
     if (!this.config.usePerfTips) {
       return;
     }
-    if (!this.currentStackFrames || this.currentStackFrames.length === 0) {
+    if (!thread.currentStackFrames || thread.currentStackFrames.length === 0) {
       return;
     }
 
     try {
       const { format } = this.config.usePerfTips;
-      const message = (await this.evaluateLog(format, metaVariableMap)).reduce((prev: string, current) => {
+      const message = (await this.evaluateLog(thread, format, metaVariableMap)).reduce((prev: string, current) => {
         if (typeof current === 'string') {
           return prev + current;
         }
@@ -1592,7 +2858,7 @@ export class AhkDebugSession extends LoggingDebugSession {
       });
       this.perfTipsDecorationTypes.push(decorationType);
 
-      const { source, line } = this.currentStackFrames[0];
+      const { source, line } = thread.currentStackFrames[0];
       const document = await vscode.workspace.openTextDocument(source.path);
       let line_0base = line - 1;
       if (line_0base === document.lineCount) {
@@ -1615,7 +2881,9 @@ export class AhkDebugSession extends LoggingDebugSession {
         this.raisedCriticalError = true;
         this.sendAnnounce(error.message, 'stderr');
         this.sendTerminateEvent();
+        return;
       }
+      this.traceLogger.log(`Failed to display the perf tips. ${error instanceof Error ? error.message : String(error)}`);
     }
   }
   private clearPerfTipsDecorations(): void {
@@ -1629,20 +2897,94 @@ export class AhkDebugSession extends LoggingDebugSession {
       }
     }
   }
+  private launchAutoHotkey(): void {
+    const ahkProcess = this.config.replayProtocol
+      ? ProtocolReplayer.load(this.config.replayProtocol).replay(this.config.port, this.config.hostname, this.config.replayProtocol)
+      : new AutoHotkeyLauncher(this.config).launch();
+    this.ahkProcess = ahkProcess;
+    this.ahkProcess.event
+      .on('close', (exitCode?: number) => {
+        // The process before the restart is ignored
+        if (this.isTerminateRequested || this.ahkProcess !== ahkProcess) {
+          return;
+        }
+        this.traceLogger.log('Autohotkey close');
+
+        if (isNumber(exitCode)) {
+          this.exitCode = exitCode;
+        }
+        this.sendTerminateEvent();
+      })
+      .on('stdout', (message: string) => {
+        const fixedData = this.fixPathOfRuntimeError(message);
+        if (!this.session && !this.config.noDebug) {
+          this.delayedWarningMessages.push(fixedData);
+          return;
+        }
+        this.sendOutputEvent(fixedData);
+      })
+      .on('stderr', (message: string, thread: DebugThread | undefined = this.mainThread) => {
+        this.errorMessage = this.fixPathOfRuntimeError(message);
+        this.sendOutputEvent(this.errorMessage, 'stderr');
+
+        // With `/ErrorStdOut`, the runtime errors are output to stderr. The output forwarded from a connection comes with its thread, and the rest is from the main script
+        const runtimeError = parseRuntimeError(message, this.config.program);
+        if (runtimeError && thread) {
+          this.breakOnRuntimeError(thread, runtimeError);
+        }
+      })
+      .on('outputdebug', (message: string) => {
+        this.sendOutputDebug(message);
+      });
+    this.sendAnnounce(`${this.ahkProcess.command}`);
+  }
   private async createServer(args: LaunchRequestArguments): Promise<void> {
+    if (args.recordProtocol) {
+      this.protocolRecorder = new ProtocolRecorder(args.recordProtocol);
+      this.sendAnnounce(`The DBGp traffic is recorded in "${this.protocolRecorder.filePath}"`);
+    }
+
     return new Promise<void>((resolve, reject) => {
       this.server = net.createServer()
         .listen(args.port, args.hostname)
         .on('connection', (socket) => {
           try {
-            this.session = new dbgp.Session(socket, this.traceLogger)
+            // The first connection is the debugged script itself. Subsequent connections are child scripts started with `/Debug` or AutoHotkey_H threads
+            const session = new dbgp.Session(socket, this.traceLogger, this.protocolRecorder);
+            session.commandTimeout = this.config.commandTimeout;
+            session.deepCommandTimeout = this.config.deepCommandTimeout;
+            const thread = new DebugThread(session, new BreakpointManager(session, this.traceLogger), new VariableManager(this, session, this.config.variableCategories));
+            const isMainThread = !this.mainThread;
+            if (isMainThread) {
+              this.mainThread = thread;
+            }
+            this.threads.set(thread.id, thread);
+
+            session
               .on('init', (initPacket: dbgp.InitPacket) => {
-                if (typeof this.session === 'undefined') {
+                thread.conditionalEvaluator = new ConditionalEvaluator(session);
+                thread.expressionEvaluator = new ExpressionEvaluator(session, thread.conditionalEvaluator);
+                thread.variableFormatter = new VariableFormatter(session, this.config.variableFormatters);
+                if (!isMainThread) {
+                  thread.name = `Thread ${thread.id} (${path.basename(URI.parse(initPacket.fileUri).fsPath)})`;
+                  this.startChildThread(thread);
+                  return;
+                }
+
+                const mainThreadBeforeRestart = this.mainThreadBeforeRestart;
+                if (mainThreadBeforeRestart) {
+                  this.mainThreadBeforeRestart = undefined;
+                  this.delayedWarningMessages.splice(0).forEach((message) => {
+                    this.sendOutputEvent(message, 'stdout');
+                  });
+                  completionItemProvider.session = session;
+                  this.startRestartedThread(thread, mainThreadBeforeRestart);
                   return;
                 }
+
                 this.sendAnnounce(`Debugger Adapter Version: ${String(debuggerAdapterVersion)}`, 'console', 'detail');
                 this.sendAnnounce(`Debug Configuration (${this.config.request}): ${this.config.name}`, 'console', 'detail');
-                this.sendAnnounce(`AutoHotkey Version: ${this.session.ahkVersion.full}`, 'console', 'detail');
+                this.sendAnnounce(`AutoHotkey Version: ${session.ahkVersion.full}`, 'console', 'detail');
                 if (0 < this.delayedWarningMessages.length) {
                   this.delayedWarningMessages.forEach((message) => {
                     this.sendOutputEvent(message, 'stdout');
@@ -1650,41 +2992,72 @@ export class AhkDebugSession extends LoggingDebugSession {
                 }
 
                 completionItemProvider.useIntelliSenseInDebugging = this.config.useIntelliSenseInDebugging;
-                completionItemProvider.session = this.session;
-                this.ahkParser = createParser(this.session.ahkVersion);
-                this.conditionalEvaluator = new ConditionalEvaluator(this.session);
+                completionItemProvider.session = session;
+                this.ahkParser = createParser(session.ahkVersion);
                 this.sendEvent(new InitializedEvent());
               })
               .on('warning', (warning: string) => {
                 this.sendOutputEvent(`${warning}\n`);
               })
+              .on('commandError', (error: dbgp.DbgpTimeoutError | dbgp.DbgpConnectionClosedError) => {
+                this.traceLogger.log(`command error: ${error.message}`);
+                // Also ignored are the errors of the threads that have exited or were closed by the restart
+                if (this.isTerminateRequested || this.threads.get(thread.id) !== thread) {
+                  return;
+                }
+                // The script may exit while it is running, which is not an error
+                if (error instanceof dbgp.DbgpConnectionClosedError && dbgp.isContinuationCommandName(error.commandName)) {
+                  return;
+                }
+
+                this.sendAnnounce(`[${thread.name}] ${error.message}`, 'stderr', 'error');
+                if (error instanceof dbgp.DbgpTimeoutError) {
+                  const attributeName = error.timeout === session.deepCommandTimeout ? 'deepCommandTimeout' : 'commandTimeout';
+                  this.sendAnnounce(`[HINT] If AutoHotkey just needs more time, increase \`${attributeName}\` in launch.json.`, 'stderr', 'error');
+                }
+              })
               .on('error', (error?: Error) => {
                 this.traceLogger.log('session error');
+                if (!isMainThread) {
+                  this.exitChildThread(thread);
+                  return;
+                }
+                // Closed by the restart
+                if (this.mainThread !== thread) {
+                  return;
+                }
                 if (!this.isTerminateRequested && error) {
                   this.sendAnnounce(`Session closed for the following reasons: ${error.message}`, 'stderr');
                 }
 
-                // this.sendEvent(new ThreadEvent('Session exited.', this.session!.id));
                 this.sendTerminateEvent();
               })
               .on('close', () => {
                 this.traceLogger.log('session close');
+                if (!isMainThread) {
+                  this.exitChildThread(thread);
+                }
               })
               .on('stdout', (data) => {
-                this.ahkProcess!.event.emit('stdout', String(data));
+                this.ahkProcess!.event.emit('stdout', String(data), thread);
               })
               .on('stderr', (data) => {
-                this.ahkProcess!.event.emit('stderr', String(data));
+                this.ahkProcess!.event.emit('stderr', String(data), thread);
               })
               .on('outputdebug', (data) => {
                 const message = String(data);
-                const isRuntimeError = (/Error:\s\s[^\s].*Line#.*--->.*Try to continue anyway\?$/us).test(message);
-                this.ahkProcess!.event.emit(isRuntimeError ? 'stderr' : 'outputdebug', message);
+                // The text of the error dialog is sent to the debugger. Since it comes from the session, the thread that raised it is known
+                const runtimeError = parseRuntimeError(message, this.config.program);
+                if (runtimeError) {
+                  this.errorMessage = formatRuntimeError(runtimeError);
+                  this.sendOutputEvent(this.errorMessage, 'stderr');
+                  this.breakOnRuntimeError(thread, runtimeError);
+                  return;
+                }
+                this.ahkProcess!.event.emit('outputdebug', message);
               });
 
-            this.breakpointManager = new BreakpointManager(this.session);
-            this.variableManager = new VariableManager(this, this.config.variableCategories);
-            this.sendEvent(new ThreadEvent('Session started.', this.session.id));
+            this.sendEvent(new ThreadEvent('started', thread.id));
             resolve();
           }
           catch (error: unknown) {
@@ -1694,6 +3067,61 @@ export class AhkDebugSession extends LoggingDebugSession {
         });
     });
   }
+  private async startChildThread(thread: DebugThread): Promise<void> {
+    try {
+      await thread.session.sendFeatureSetCommand('max_children', this.config.maxChildren);
+      await this.registerDebugDirective(thread);
+      for await (const [ fileUri, requestedBreakpoints ] of this.requestedBreakpoints) {
+        await this.registerLineBreakpoints(thread, fileUri, requestedBreakpoints);
+      }
+      await this.registerFunctionBreakpoints(thread, this.requestedFunctionBreakpoints);
+      await this.registerExceptionBreakpoints(thread, this.exceptionBreakpointFilters);
+
+      const result = await thread.session.sendContinuationCommand('run');
+      this.checkContinuationStatus(thread, result);
+    }
+    catch (error: unknown) {
+      this.traceLogger.log(`Failed to start ${thread.name}`);
+    }
+  }
+  private async startRestartedThread(thread: DebugThread, mainThreadBeforeRestart: DebugThread): Promise<void> {
+    try {
+      await thread.session.sendFeatureSetCommand('max_children', this.config.maxChildren);
+      await this.registerDebugDirective(thread);
+      // Locked so as not to be mixed up with the breakpoints that VS Code requests while restarting
+      await asyncLock.acquire('setBreakPointsRequest', async() => {
+        for await (const [ fileUri, requestedBreakpoints ] of this.requestedBreakpoints) {
+          await this.registerLineBreakpoints(thread, fileUri, requestedBreakpoints);
+        }
+        await this.registerFunctionBreakpoints(thread, this.requestedFunctionBreakpoints);
+        thread.breakpointManager.restoreHitCounts(mainThreadBeforeRestart.breakpointManager);
+
+        // The script has not run yet, so the snapshots are taken on the first step
+        await thread.dataBreakpointManager.setBreakpoints(this.requestedDataBreakpoints, false);
+        thread.dataBreakpointManager.restoreHitCounts(mainThreadBeforeRestart.dataBreakpointManager);
+      });
+      await this.registerExceptionBreakpoints(thread, this.exceptionBreakpointFilters);
+
+      if (this.config.stopOnEntry) {
+        const result = await thread.session.sendContinuationCommand('step_into');
+        // Paused before the first line is executed, so the values can be the base of the comparison
+        await thread.dataBreakpointManager.takeMissingSnapshots();
+        this.checkContinuationStatus(thread, result);
+        return;
+      }
+      const result = await this.sendRunCommand(thread);
+      this.checkContinuationStatus(thread, result);
+    }
+    catch (error: unknown) {
+      this.traceLogger.log(`Failed to restart ${thread.name}`);
+    }
+  }
+  private exitChildThread(thread: DebugThread): void {
+    if (!this.threads.delete(thread.id)) {
+      return;
+    }
+    this.sendEvent(new ThreadEvent('exited', thread.id));
+  }
   private async jumpToError(): Promise<boolean> {
     if (this.config.useAutoJumpToError && this.errorMessage) {
       const match = this.errorMessage.match(/^(?<filePath>.+):(?<line>\d+)(?=\s:\s==>)/u);
@@ -1,7 +1,7 @@
 import * as vscode from 'vscode';
 import { DebugProtocol } from 'vscode-debugprotocol';
 import { URI } from 'vscode-uri';
-import { unescapeAhk } from './util/VariableManager';
+import { truncatedMarker, unescapeAhk } from './util/VariableManager';
 
 interface VariableContextMenuParam {
   container: DebugProtocol.Scope;
@@ -26,6 +26,20 @@ const convertToHex = (param: VariableContextMenuParam): string => {
 const convertToScientificNotation = (param: VariableContextMenuParam): string => {
   return Number(removeQuote(param.variable.value)).toExponential();
 };
+// If the string is cut off by `max_data`, ask the debug adapter for the full value
+const fetchFullValue = async(param: VariableContextMenuParam): Promise<{ value: string; text: string }> => {
+  const isTruncated = param.variable.value.endsWith(`"${truncatedMarker}`);
+  const debugSession = vscode.debug.activeDebugSession;
+  if (!isTruncated || !debugSession) {
+    return { value: param.variable.value, text: convertToText(param) };
+  }
+
+  const { value, text } = await debugSession.customRequest('fullValue', {
+    variablesReference: param.container.variablesReference,
+    evaluateName: param.variable.evaluateName ?? param.variable.name,
+  }) as { value: string; text: string };
+  return { value, text };
+};
 const showValue = async(text: string): Promise<void> => {
   const uri = URI.parse(`valuepreview:${encodeURI(text)}.ahk`);
   const doc = await vscode.workspace.openTextDocument(uri); // calls back into the provider
@@ -40,12 +54,28 @@ export const registerCommands = (context: vscode.ExtensionContext): void => {
     }
   }()));
 
+  // Debug
+  context.subscriptions.push(vscode.commands.registerCommand('vscode-autohotkey-debug.runToCursor', async(): Promise<void> => {
+    const editor = vscode.window.activeTextEditor;
+    const debugSession = vscode.debug.activeDebugSession;
+    if (!editor || debugSession?.type !== 'autohotkey') {
+      return;
+    }
+
+    await debugSession.customRequest('runToCursor', {
+      path: editor.document.uri.fsPath,
+      line: editor.selection.active.line + 1,
+    });
+  }));
+
   // View
   context.subscriptions.push(vscode.commands.registerCommand('vscode-autohotkey-debug.variables-view.viewValue', async(param: VariableContextMenuParam): Promise<void> => {
-    await showValue(param.variable.value);
+    const { value } = await fetchFullValue(param);
+    await showValue(value);
   }));
   context.subscriptions.push(vscode.commands.registerCommand('vscode-autohotkey-debug.variables-view.viewAsText', async(param: VariableContextMenuParam): Promise<void> => {
-    await showValue(convertToText(param));
+    const { text } = await fetchFullValue(param);
+    await showValue(text);
   }));
   context.subscriptions.push(vscode.commands.registerCommand('vscode-autohotkey-debug.variables-view.ViewAsEachBaseNumbers', async(param: VariableContextMenuParam): Promise<void> => {
     const text = [
@@ -66,7 +96,7 @@ export const registerCommands = (context: vscode.ExtensionContext): void => {
 
   // Copy
   context.subscriptions.push(vscode.commands.registerCommand('vscode-autohotkey-debug.variables-view.copyAsText', async(param: VariableContextMenuParam): Promise<void> => {
-    const text = convertToText(param);
+    const { text } = await fetchFullValue(param);
     await vscode.env.clipboard.writeText(text);
   }));
   context.subscriptions.push(vscode.commands.registerCommand('vscode-autohotkey-debug.variables-view.copyAsDecimal', async(param: VariableContextMenuParam): Promise<void> => {
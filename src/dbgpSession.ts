@@ -10,6 +10,7 @@ import { CaseInsensitiveMap } from './util/CaseInsensitiveMap';
 import { isNumberLike, joinVariablePathArray, splitVariablePath } from './util/util';
 import { equalsIgnoreCase } from './util/stringUtils';
 import { TraceLogger } from './util/TraceLogger';
+import { ProtocolRecorder } from './util/ProtocolRecorder';
 import { isComObject, unescapeAhk } from './util/VariableManager';
 
 export interface XmlDocument {
@@ -66,10 +67,14 @@ export type CommandName =
   'stdout' | 'stderr' |
   'typemap_get' |
   'source';
+export const isContinuationCommandName = (commandName: CommandName): commandName is ContinuationCommandName => {
+  return [ 'run', 'step_into', 'step_over', 'step_out', 'break', 'stop', 'detach', 'status' ].includes(commandName);
+};
 export interface Command {
   name: CommandName;
   args?: string;
   data?: string;
+  timeoutId?: NodeJS.Timeout;
   resolve: (response: any) => any;
   reject: (error?: Error) => any;
 }
@@ -105,6 +110,26 @@ export class DbgpError extends Error {
 }
 export class DbgpCriticalError extends Error {
 }
+export class DbgpTimeoutError extends Error {
+  public readonly commandName: CommandName;
+  public readonly timeout: number;
+  constructor(commandName: CommandName, timeout: number) {
+    super(`AutoHotkey did not respond to the \`${commandName}\` command within ${timeout} ms.`);
+
+    this.name = 'DbgpTimeoutError';
+    this.commandName = commandName;
+    this.timeout = timeout;
+  }
+}
+export class DbgpConnectionClosedError extends Error {
+  public readonly commandName: CommandName;
+  constructor(commandName: CommandName) {
+    super(`The connection to AutoHotkey was closed before the \`${commandName}\` command received a response.`);
+
+    this.name = 'DbgpConnectionClosedError';
+    this.commandName = commandName;
+  }
+}
 export class Response {
   public transactionId: number;
   public commandName: CommandName;
@@ -202,6 +227,8 @@ export class ObjectProperty extends Property {
   public address: number;
   public page: number;
   public pageSize: number;
+  // The number of all children, including the ones not contained in the page
+  public numberOfChildren: number;
   public get maxIndex(): number | undefined {
     for (let reverseIndex = this.children.length - 1; 0 <= reverseIndex; reverseIndex--) {
       const property = this.children[reverseIndex];
@@ -219,13 +246,14 @@ export class ObjectProperty extends Property {
   }
   constructor(propertyNode: XmlNode, context: Context) {
     super(propertyNode, context);
-    const { classname, address, page, pagesize, children } = propertyNode.attributes;
+    const { classname, address, page, pagesize, children, numchildren } = propertyNode.attributes;
 
     this.hasChildren = Boolean(parseInt(children, 10));
     this.className = classname;
     this.address = parseInt(address, 10);
     this.page = parseInt(page, 10);
     this.pageSize = parseInt(pagesize, 10);
+    this.numberOfChildren = parseInt(numchildren, 10);
 
     if (propertyNode.property) {
       const properties = Array.isArray(propertyNode.property) ? propertyNode.property : [ propertyNode.property ];
@@ -250,11 +278,18 @@ export class ObjectProperty extends Property {
         }
       }
     }
+    if (Number.isNaN(this.numberOfChildren)) {
+      this.numberOfChildren = this.children.length;
+    }
   }
 }
 export class PrimitiveProperty extends Property {
   public encoding: string;
   public value: string;
+  // The engine cuts off data longer than `max_data`, but `size` is always the size of the full value
+  public get isTruncated(): boolean {
+    return Buffer.byteLength(this.value) < this.size;
+  }
   constructor(propertyNode: XmlNode, context: Context) {
     super(propertyNode, context);
     const { encoding } = propertyNode.attributes;
@@ -287,6 +322,19 @@ export class PropertyGetResponse extends Response {
     }
   }
 }
+export class PropertyValueResponse extends Response {
+  public size: number;
+  public encoding: string;
+  public value: string;
+  constructor(response: XmlNode) {
+    super(response);
+    const { size, encoding } = response.attributes;
+
+    this.size = parseInt(size, 10);
+    this.encoding = encoding;
+    this.value = 'content' in response ? Buffer.from(String(response.content), encoding as BufferEncoding).toString() : '';
+  }
+}
 export class PropertySetResponse extends Response {
   public success: boolean;
   constructor(response: XmlNode) {
@@ -297,8 +345,8 @@ export class PropertySetResponse extends Response {
   }
 }
 export type ContinuationStatus = 'starting' | 'break' | 'running' | 'stopped';
-export type ContinuationExitReason = 'ok' | 'error';
-export type ContinuationStopReason = 'step' | 'breakpoint' | 'pause';
+export type ContinuationExitReason = 'ok' | 'error' | 'exception';
+export type ContinuationStopReason = 'step' | 'breakpoint' | 'pause' | 'exception';
 export interface ContinuationElapsedTime {
   ns: number;
   ms: number;
@@ -316,7 +364,10 @@ export class ContinuationResponse extends Response {
     const status = response.attributes.status ? response.attributes.status as ContinuationStatus : 'break';
     const exitReason = response.attributes.reason ? response.attributes.reason as ContinuationExitReason : 'ok';
     let stopReason: ContinuationStopReason;
-    if (this.commandName.startsWith('step')) {
+    if (exitReason === 'exception') {
+      stopReason = 'exception';
+    }
+    else if (this.commandName.startsWith('step')) {
       stopReason = 'step';
     }
     else if (this.commandName === 'break') {
@@ -395,7 +446,8 @@ export class FeatureSetResponse extends Response {
   }
 }
 export type BreakpointConditionType = 'condition' | 'hit' | 'log';
-export type BreakpointType = 'line';
+export type BreakpointType = 'line' | 'exception';
+export type ExceptionBreakpointMode = 'caught' | 'uncaught';
 export type BreakpointState = 'enabled' | 'disabled';
 export class Breakpoint {
   public id: number;
@@ -484,40 +536,147 @@ export class SourceResponse extends Response {
     }
   }
 }
+/**
+ * Split the data received from the engine into messages. As shown in the example below, each message is divided into data length and response.
+ * https://xdebug.org/docs/dbgp#response
+ *     data_length
+ *     [NULL]
+ *     <?xml version="1.0" encoding="UTF-8"?>
+ *     <response xmlns="urn:debugger_protocol_v1"
+ *               command="command_name"
+ *               transaction_id="transaction_id"/>
+ *     [NULL]
+ *
+ * Once the data length is known, the chunks are only buffered until that many bytes arrive, so a huge response is concatenated only once.
+ */
+export class PacketDecoder {
+  private chunks: Buffer[] = [];
+  private bufferedLength = 0;
+  private dataLength?: number;
+  public decode(packet: Buffer): Buffer[] {
+    this.chunks.push(packet);
+    this.bufferedLength += packet.length;
+
+    const messages: Buffer[] = [];
+    for (;;) {
+      if (typeof this.dataLength === 'undefined') {
+        const terminatorIndex = this.indexOfNull();
+        if (terminatorIndex === -1) {
+          break;
+        }
+
+        const header = this.read(terminatorIndex + 1).slice(0, terminatorIndex).toString();
+        const dataLength = parseInt(header, 10);
+        if (isNaN(dataLength)) {
+          // It is not a header, so treat it as a message without data length
+          messages.push(Buffer.from(header));
+          continue;
+        }
+        this.dataLength = dataLength;
+      }
+
+      // Wait for the data and its terminator
+      if (this.bufferedLength < this.dataLength + 1) {
+        break;
+      }
+
+      // If the data length does not match the position of the terminator, trust the terminator
+      const terminatorIndex = this.peek(this.dataLength) === 0 ? this.dataLength : this.indexOfNull();
+      if (terminatorIndex === -1) {
+        break;
+      }
+      messages.push(this.read(terminatorIndex + 1).slice(0, terminatorIndex));
+      this.dataLength = undefined;
+    }
+    return messages;
+  }
+  private peek(index: number): number | undefined {
+    let offset = index;
+    for (const chunk of this.chunks) {
+      if (offset < chunk.length) {
+        return chunk[offset];
+      }
+      offset -= chunk.length;
+    }
+    return undefined;
+  }
+  private indexOfNull(): number {
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      const index = chunk.indexOf(0);
+      if (index !== -1) {
+        return offset + index;
+      }
+      offset += chunk.length;
+    }
+    return -1;
+  }
+  private read(length: number): Buffer {
+    const read: Buffer[] = [];
+    let remaining = length;
+    while (0 < remaining) {
+      const chunk = this.chunks.shift()!;
+      if (chunk.length <= remaining) {
+        read.push(chunk);
+        remaining -= chunk.length;
+        continue;
+      }
+
+      read.push(chunk.slice(0, remaining));
+      this.chunks.unshift(chunk.slice(remaining));
+      remaining = 0;
+    }
+    this.bufferedLength -= length;
+    return read.length === 1 ? read[0] : Buffer.concat(read);
+  }
+}
 export class Session extends EventEmitter {
+  private static idCounter = 1;
   public readonly DEFAULT_MAX_DEPTH = 1;
-  public readonly id: number = 1;
+  public readonly DEFAULT_MAX_DATA = 1024;
+  // Milliseconds to wait for a response; 0 means no timeout. Continuation commands are not covered, as the script may keep running indefinitely
+  public commandTimeout = 30 * 1000;
+  // Used instead of `commandTimeout` for commands that fetch a deep hierarchy, such as `context_get` with a large `max_depth`
+  public deepCommandTimeout = 120 * 1000;
+  // Unique per connection. Used as the thread id of DAP
+  public readonly id: number = Session.idCounter++;
   private _ahkVersion!: AhkVersion;
   public get ahkVersion(): AhkVersion {
     return this._ahkVersion;
   }
   private readonly socket: Socket;
   private readonly logger?: TraceLogger;
+  private readonly recorder?: ProtocolRecorder;
   private readonly pendingCommands = new Map<number, Command>();
   private transactionCounter = 1;
-  private insufficientData: Buffer = Buffer.from('');
+  private readonly packetDecoder = new PacketDecoder();
   public get socketWritable(): boolean {
     return this.socket.writable;
   }
   public get socketClosed(): boolean {
     return !this.socket.writable;
   }
-  constructor(socket: Socket, logger?: TraceLogger) {
+  constructor(socket: Socket, logger?: TraceLogger, recorder?: ProtocolRecorder) {
     super();
 
     this.logger = logger;
+    this.recorder = recorder;
     this.socket = socket
       .on('data', (packet: Buffer): void => {
         this.handlePacket(packet);
       })
       .on('error', (error: Error) => this.emit('error', error))
-      .on('close', () => this.emit('close'));
+      .on('close', () => {
+        this.rejectPendingCommands();
+        this.emit('close');
+      });
 
     this.on('message', (xml: XmlDocument) => {
       if (xml.init) {
         const initPacket = new InitPacket(xml.init);
         Promise.all([
           this.sendFeatureSetCommand('max_depth', this.DEFAULT_MAX_DEPTH),
+          this.sendFeatureSetCommand('max_data', this.DEFAULT_MAX_DATA),
           this.sendStdoutCommand('redirect'),
           this.sendStderrCommand('redirect'),
           this.sendCommand('property_set', '-n A_DebuggerName -c 1', 'Visual Studio Code'),
@@ -526,6 +685,8 @@ export class Session extends EventEmitter {
           }),
         ]).then(() => {
           this.emit('init', initPacket);
+        }).catch(() => {
+          // The cause has already been notified by the `commandError` event
         });
       }
       else if (xml.response) {
@@ -533,6 +694,9 @@ export class Session extends EventEmitter {
         if (this.pendingCommands.has(transactionId)) {
           const command = this.pendingCommands.get(transactionId);
           this.pendingCommands.delete(transactionId);
+          if (command?.timeoutId) {
+            clearTimeout(command.timeoutId);
+          }
           command?.resolve(xml.response);
         }
       }
@@ -548,7 +712,7 @@ export class Session extends EventEmitter {
       }
     });
   }
-  public async sendCommand(commandName: CommandName, args?: string, data?: string): Promise<XmlNode> {
+  public async sendCommand(commandName: CommandName, args?: string, data?: string, timeout = this.getDefaultTimeout(commandName)): Promise<XmlNode> {
     return new Promise<XmlNode>((resolve, reject) => {
       const transactionId = this.createTransactionId();
       let command_str = `${commandName} -i ${String(transactionId)}`;
@@ -560,14 +724,26 @@ export class Session extends EventEmitter {
       }
       command_str += '\0';
 
-      this.pendingCommands.set(transactionId, {
+      const command: Command = {
         name: commandName,
         args,
         data,
         resolve,
         reject,
-      } as Command);
-      this.write(command_str);
+      };
+      if (0 < timeout) {
+        command.timeoutId = setTimeout(() => {
+          if (this.pendingCommands.delete(transactionId)) {
+            this.rejectCommand(command, new DbgpTimeoutError(commandName, timeout));
+          }
+        }, timeout);
+      }
+      this.pendingCommands.set(transactionId, command);
+      this.write(command_str).catch(() => {
+        if (this.pendingCommands.delete(transactionId)) {
+          this.rejectCommand(command, new DbgpConnectionClosedError(commandName));
+        }
+      });
     });
   }
   public async sendStackGetCommand(depth?: number): Promise<StackGetResponse> {
@@ -579,8 +755,12 @@ export class Session extends EventEmitter {
   public async sendStackDepthCommand(): Promise<StackDepthResponse> {
     return new StackDepthResponse(await this.sendCommand('stack_depth'));
   }
-  public async sendPropertyGetCommand(context: Context, name: string, maxDepth = this.DEFAULT_MAX_DEPTH): Promise<PropertyGetResponse> {
-    const commandParams = `-n ${unescapeAhk(name, this.ahkVersion)} -c ${context.id} -d ${context.stackFrame.level}`;
+  /**
+   * @param page The page of the children to be fetched. The size of a page is `max_children`
+   */
+  public async sendPropertyGetCommand(context: Context, name: string, maxDepth = this.DEFAULT_MAX_DEPTH, page?: number): Promise<PropertyGetResponse> {
+    const pageParam = typeof page === 'number' ? ` -p ${page}` : '';
+    const commandParams = `-n ${unescapeAhk(name, this.ahkVersion)} -c ${context.id} -d ${context.stackFrame.level}${pageParam}`;
     let response: PropertyGetResponse;
     if (this.DEFAULT_MAX_DEPTH === maxDepth) {
       const dbgpResponse = await this.sendCommand('property_get', commandParams);
@@ -588,16 +768,21 @@ export class Session extends EventEmitter {
     }
     else {
       await this.sendFeatureSetCommand('max_depth', maxDepth);
-      const dbgpResponse = await this.sendCommand('property_get', commandParams);
-      response = new PropertyGetResponse(dbgpResponse, context);
-      await this.sendFeatureSetCommand('max_depth', this.DEFAULT_MAX_DEPTH);
+      try {
+        const dbgpResponse = await this.sendCommand('property_get', commandParams, undefined, this.deepCommandTimeout);
+        response = new PropertyGetResponse(dbgpResponse, context);
+      }
+      finally {
+        // Restore it even if the command fails or times out, otherwise all subsequent commands will fetch deeply
+        await this.sendFeatureSetCommand('max_depth', this.DEFAULT_MAX_DEPTH);
+      }
     }
 
     // Workaround the bug of not being able to get the base object correctly
     const shouldAvoidBug = name.endsWith('<base>') && 0 < response.properties.length && response.properties[0].type === 'undefined'
     && ((this.ahkVersion.mejor <= 1.1 && this.ahkVersion.lessThanEquals('1.1.33.10')) || (this.ahkVersion.mejor === 2.0 && this.ahkVersion.lessThanEquals('2.0-a103')));
     if (shouldAvoidBug) {
-      return this.sendPropertyGetCommand(context, name.replace(/<base>$/u, 'base'), maxDepth);
+      return this.sendPropertyGetCommand(context, name.replace(/<base>$/u, 'base'), maxDepth, page);
     }
     return response;
   }
@@ -613,6 +798,13 @@ export class Session extends EventEmitter {
     } as ContinuationElapsedTime;
     return new ContinuationResponse(response, elapsedTime);
   }
+  public async sendPropertyValueCommand(context: Context, name: string, maxData?: number): Promise<PropertyValueResponse> {
+    const commandParams = `-n ${unescapeAhk(name, this.ahkVersion)} -c ${context.id} -d ${context.stackFrame.level}`;
+    if (typeof maxData === 'undefined') {
+      return new PropertyValueResponse(await this.sendCommand('property_value', commandParams));
+    }
+    return new PropertyValueResponse(await this.sendCommand('property_value', `${commandParams} -m ${maxData}`));
+  }
   public async sendPropertySetCommand(property: { context: Context; fullName: string; typeName: string; data: string }): Promise<PropertySetResponse> {
     return new PropertySetResponse(await this.sendCommand('property_set', `-c ${property.context.id} -d ${property.context.stackFrame.level} -n ${property.fullName} -t ${property.typeName}`, property.data));
   }
@@ -648,8 +840,12 @@ export class Session extends EventEmitter {
     let dbgpResponse: XmlNode;
     if (this.DEFAULT_MAX_DEPTH < maxDepth) {
       await this.sendFeatureSetCommand('max_depth', maxDepth);
-      dbgpResponse = await this.sendCommand('context_get', commandParams);
-      await this.sendFeatureSetCommand('max_depth', this.DEFAULT_MAX_DEPTH);
+      try {
+        dbgpResponse = await this.sendCommand('context_get', commandParams, undefined, this.deepCommandTimeout);
+      }
+      finally {
+        await this.sendFeatureSetCommand('max_depth', this.DEFAULT_MAX_DEPTH);
+      }
     }
     else {
       dbgpResponse = await this.sendCommand('context_get', commandParams);
@@ -666,8 +862,17 @@ export class Session extends EventEmitter {
   public async sendBreakpointGetCommand(breakpointId: number): Promise<BreakpointGetResponse> {
     return new BreakpointGetResponse(await this.sendCommand('breakpoint_get', `-d ${breakpointId}`));
   }
-  public async sendBreakpointSetCommand(fileUri: string, line: number): Promise<BreakpointSetResponse> {
-    return new BreakpointSetResponse(await this.sendCommand('breakpoint_set', `-t line -f ${fileUri} -n ${line}`));
+  // A temporary breakpoint is deleted by the engine when it is hit
+  public async sendBreakpointSetCommand(fileUri: string, line: number, temporary = false): Promise<BreakpointSetResponse> {
+    return new BreakpointSetResponse(await this.sendCommand('breakpoint_set', `-t line -f ${fileUri} -n ${line}${temporary ? ' -r 1' : ''}`));
+  }
+  /**
+   * Break when an exception is thrown. `caught` breaks even when the exception is caught by `try`.
+   * @param exceptionName Class name of the exception to break on. If omitted, break on all exceptions
+   */
+  public async sendExceptionBreakpointSetCommand(mode: ExceptionBreakpointMode, exceptionName?: string): Promise<BreakpointSetResponse> {
+    const args = `-t exception -s enabled -c ${mode === 'caught' ? 1 : 0}${exceptionName ? ` -x ${exceptionName}` : ''}`;
+    return new BreakpointSetResponse(await this.sendCommand('breakpoint_set', args));
   }
   public async sendBreakpointRemoveCommand(id: number): Promise<Response> {
     return new Response(await this.sendCommand('breakpoint_remove', `-d ${id}`));
@@ -737,6 +942,30 @@ export class Session extends EventEmitter {
     }
     return uniq(variableNames);
   }
+  /**
+   * Fetch only a part of the children, so that objects with a huge number of children are not fetched at once.
+   * The pages are of the size set by `max_children`, which is not changed here since all the other commands share it. The pages are sliced to the range.
+   */
+  public async fetchPropertyChildren(property: ObjectProperty, start: number, count: number): Promise<Property[]> {
+    const pageSize = 0 < property.pageSize ? property.pageSize : Math.max(property.numberOfChildren, 1);
+    const end = Math.min(start + count, property.numberOfChildren);
+    const firstPage = Math.floor(start / pageSize);
+    const lastPage = Math.floor((end - 1) / pageSize);
+
+    const children: Property[] = [];
+    for (let page = firstPage; page <= lastPage; page++) {
+      // eslint-disable-next-line no-await-in-loop
+      const { properties } = await this.sendPropertyGetCommand(property.context, property.fullName, this.DEFAULT_MAX_DEPTH, page);
+      const pageProperty = properties[0];
+      if (!(pageProperty instanceof ObjectProperty)) {
+        break;
+      }
+      children.push(...pageProperty.children);
+    }
+
+    const offset = start - (firstPage * pageSize);
+    return children.slice(offset, offset + count);
+  }
   public async fetchProperty(context: Context, name: string, maxDepth = this.DEFAULT_MAX_DEPTH): Promise<Property | undefined> {
     const { properties } = await this.sendPropertyGetCommand(context, name, maxDepth);
     const property = properties[0];
@@ -813,6 +1042,24 @@ export class Session extends EventEmitter {
     }
     return undefined;
   }
+  // DBGp cannot specify the offset of the data, so the first page (`max_data` bytes) tells the full size, and the rest is fetched by specifying that size
+  public async fetchFullValue(context: Context, name: string): Promise<string> {
+    const firstPage = await this.sendPropertyValueCommand(context, name);
+    if (firstPage.size <= Buffer.byteLength(firstPage.value)) {
+      return firstPage.value;
+    }
+
+    const { value } = await this.sendPropertyValueCommand(context, name, firstPage.size);
+    return value;
+  }
+  // The value thrown when stopped by an exception breakpoint can be retrieved with the pseudo-variable `<exception>`
+  public async fetchException(stackFrame: StackFrame): Promise<Property | undefined> {
+    const { contexts } = await this.sendContextNamesCommand(stackFrame);
+    if (contexts.length === 0) {
+      return undefined;
+    }
+    return this.fetchProperty(contexts[0], '<exception>');
+  }
   public async fetchInheritedProperty(context: Context, parentName: string, key: string): Promise<Property | undefined> {
     const baseProperty = await this.fetchProperty(context, `${parentName}.<base>`);
     if (!(baseProperty && baseProperty instanceof ObjectProperty)) {
@@ -967,12 +1214,30 @@ export class Session extends EventEmitter {
       this.socket.end();
     });
   }
+  private getDefaultTimeout(commandName: CommandName): number {
+    return isContinuationCommandName(commandName) ? 0 : this.commandTimeout;
+  }
+  private rejectCommand(command: Command, error: DbgpTimeoutError | DbgpConnectionClosedError): void {
+    if (command.timeoutId) {
+      clearTimeout(command.timeoutId);
+    }
+    command.reject(error);
+    this.emit('commandError', error);
+  }
+  private rejectPendingCommands(): void {
+    const commands = Array.from(this.pendingCommands.values());
+    this.pendingCommands.clear();
+    commands.forEach((command) => {
+      this.rejectCommand(command, new DbgpConnectionClosedError(command.name));
+    });
+  }
   private createTransactionId(): number {
     this.transactionCounter += 1;
     return this.transactionCounter;
   }
   private async write(command: string): Promise<void> {
     this.logger?.log(`<command>${command}`);
+    this.recorder?.record(this.id, 'send', command.replace(/\0$/u, ''));
 
     return new Promise<void>((resolve, reject) => {
       if (!this.socket.writable) {
@@ -989,30 +1254,9 @@ export class Session extends EventEmitter {
     });
   }
   private handlePacket(packet: Buffer): void {
-    // As shown in the example below, the data passed from dbgp is divided into data length and response.
-    // https://xdebug.org/docs/dbgp#response
-    //     data_length
-    //     [NULL]
-    //     <?xml version="1.0" encoding="UTF-8"?>
-    //     <response xmlns="urn:debugger_protocol_v1"
-    //               command="command_name"
-    //               transaction_id="transaction_id"/>
-    //     [NULL]
-    const currentPacket = Buffer.concat([ this.insufficientData, packet ]);
-    this.insufficientData = Buffer.from('');
-
-    const terminatorIndex = currentPacket.indexOf(0);
-    const isCompleteReceived = -1 < terminatorIndex;
-    if (isCompleteReceived) {
-      const data = currentPacket.slice(0, terminatorIndex);
-      const isReceivedDataLength = !isNaN(parseInt(data.toString(), 10));
-      if (isReceivedDataLength) {
-        const responsePacket = currentPacket.slice(terminatorIndex + 1);
-        this.handlePacket(responsePacket);
-        return;
-      }
+    for (const data of this.packetDecoder.decode(packet)) {
+      this.recorder?.record(this.id, 'receive', data.toString());
 
-      // Received response
       // https://github.com/zero-plusplus/vscode-autohotkey-debug/issues/171
       // If it contains a newline, it should be escaped in an AutoHotkey-like manner.
       const xml_str = data.toString().replace(/\r\n/gu, '`r`n').replace(/\n/gu, '`n');
@@ -1027,15 +1271,6 @@ export class Session extends EventEmitter {
       });
 
       this.emit('message', response);
-
-      const restPacket = currentPacket.slice(terminatorIndex + 1);
-      if (0 < restPacket.length) {
-        this.handlePacket(restPacket);
-      }
-      return;
     }
-
-    // Wait for next packet
-    this.insufficientData = currentPacket;
   }
 }
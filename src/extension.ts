@@ -1,8 +1,9 @@
 /* eslint-disable require-atomic-updates */
 import { existsSync, lstatSync, readFileSync } from 'fs';
 import * as path from 'path';
+import * as os from 'os';
 import * as vscode from 'vscode';
-import { isArray, isBoolean, isPlainObject } from 'ts-predicates';
+import { isArray, isBoolean, isNumber, isPlainObject } from 'ts-predicates';
 import { defaults, groupBy, isString, range } from 'lodash';
 import isPortTaken from 'is-port-taken';
 import * as jsonc from 'jsonc-simple-parser';
@@ -13,6 +14,7 @@ import { getRunningAhkScriptList } from './util/getRunningAhkScriptList';
 import normalizeToUnix from 'normalize-path';
 import glob from 'fast-glob';
 import { registerCommands } from './commands';
+import { registerStopHistoryView } from './StopHistoryView';
 import { AhkVersion } from '@zero-plusplus/autohotkey-utilities';
 import { isDirectory, toArray } from './util/util';
 
@@ -57,6 +59,15 @@ export type CategoryData = {
   matchers?: MatcherData[];
 };
 export type CategoriesData = 'recommend' | Array<ScopeSelector | CategoryData>;
+export type VariableFormatterData = {
+  // Either is required. `className` matches only the class itself, while `is` also matches its subclasses like the `is` operator
+  className?: string;
+  is?: string;
+  // e.g. `({x}, {y})`
+  value: string;
+  // The names of the members shown when the object is expanded
+  children?: string[];
+};
 
 const normalizeCategories = (categories?: CategoriesData): CategoryData[] | undefined => {
   if (!categories) {
@@ -165,6 +176,8 @@ class AhkConfigurationProvider implements vscode.DebugConfigurationProvider {
       env: {},
       stopOnEntry: false,
       maxChildren: 10000,
+      commandTimeout: 30000,
+      deepCommandTimeout: 120000,
       useIntelliSenseInDebugging: true,
       usePerfTips: false,
       useDebugDirective: false,
@@ -173,7 +186,10 @@ class AhkConfigurationProvider implements vscode.DebugConfigurationProvider {
       useUIAVersion: false,
       useAnnounce: true,
       useLoadedScripts: true,
+      useStopHistory: false,
+      valueFormat: 'decimal',
       trace: false,
+      recordProtocol: false,
       // The following is not a configuration, but is set to pass data to the debug adapter.
       cancelReason: undefined,
     });
@@ -202,8 +218,30 @@ class AhkConfigurationProvider implements vscode.DebugConfigurationProvider {
       throw Error('`request` must be "launch" or "attach".');
     })();
 
+    // init replayProtocol
+    ((): void => {
+      if (typeof config.replayProtocol === 'undefined') {
+        return;
+      }
+      if (config.request !== 'launch') {
+        throw Error('`replayProtocol` can only be used with launch request.');
+      }
+      if (!isString(config.replayProtocol)) {
+        throw Error('`replayProtocol` must be a string.');
+      }
+
+      config.replayProtocol = path.resolve(config.replayProtocol);
+      if (!existsSync(config.replayProtocol)) {
+        throw Error(`\`replayProtocol\` must be a file path that exists.\nSpecified: "${String(normalizePath(config.replayProtocol))}"`);
+      }
+    })();
+
     // init runtime
     await (async(): Promise<void> => {
+      // AutoHotkey is not needed to replay the recorded protocol
+      if (config.replayProtocol) {
+        return;
+      }
       if (typeof config.runtime === 'undefined') {
         const doc = await vscode.workspace.openTextDocument(config.program ?? vscode.window.activeTextEditor?.document.uri.fsPath);
         config.runtime = doc.languageId.toLowerCase() === 'ahk'
@@ -232,7 +270,7 @@ class AhkConfigurationProvider implements vscode.DebugConfigurationProvider {
 
     // init runtimeArgs
     await (async(): Promise<void> => {
-      if (config.useUIAVersion) {
+      if (config.useUIAVersion || config.replayProtocol) {
         if (!config.runtimeArgs) {
           config.runtimeArgs = [];
         }
@@ -425,6 +463,20 @@ class AhkConfigurationProvider implements vscode.DebugConfigurationProvider {
       }
     })();
 
+    // init commandTimeout
+    ((): void => {
+      if (!Number.isInteger(config.commandTimeout) || config.commandTimeout < 0) {
+        throw Error('`commandTimeout` must be a positive integer or 0.');
+      }
+    })();
+
+    // init deepCommandTimeout
+    ((): void => {
+      if (!Number.isInteger(config.deepCommandTimeout) || config.deepCommandTimeout < 0) {
+        throw Error('`deepCommandTimeout` must be a positive integer or 0.');
+      }
+    })();
+
     // init openFileOnExit
     ((): void => {
       if (typeof config.openFileOnExit === 'undefined') {
@@ -546,6 +598,13 @@ class AhkConfigurationProvider implements vscode.DebugConfigurationProvider {
       }
     })();
 
+    // init valueFormat
+    ((): void => {
+      if (![ 'decimal', 'hex' ].includes(config.valueFormat)) {
+        throw Error('`valueFormat` must be "decimal" or "hex".');
+      }
+    })();
+
     // init useLoadedScripts
     ((): void => {
       if (!(isBoolean(config.useLoadedScripts) || isPlainObject(config.useLoadedScripts))) {
@@ -563,6 +622,30 @@ class AhkConfigurationProvider implements vscode.DebugConfigurationProvider {
       }
     })();
 
+    // init useStopHistory
+    ((): void => {
+      if (!(isBoolean(config.useStopHistory) || isPlainObject(config.useStopHistory))) {
+        throw Error('`useStopHistory` must be a boolean or object.');
+      }
+
+      const defaultValue = {
+        limit: 30,
+        depth: 1,
+      };
+      if (config.useStopHistory === true) {
+        config.useStopHistory = defaultValue;
+      }
+      else if (config.useStopHistory !== false) {
+        defaults(config.useStopHistory, defaultValue);
+        if (!isNumber(config.useStopHistory.limit) || config.useStopHistory.limit < 1) {
+          throw Error('`useStopHistory.limit` must be a number greater than or equal to 1.');
+        }
+        if (!isNumber(config.useStopHistory.depth) || config.useStopHistory.depth < 0) {
+          throw Error('`useStopHistory.depth` must be a number greater than or equal to 0.');
+        }
+      }
+    })();
+
     // init variableCategories
     ((): void => {
       if (!config.variableCategories) {
@@ -575,6 +658,33 @@ class AhkConfigurationProvider implements vscode.DebugConfigurationProvider {
       throw Error('`variableCategories` must be a "recommend" or array.');
     })();
 
+    // init variableFormatters
+    ((): void => {
+      if (!config.variableFormatters) {
+        return;
+      }
+      if (!isArray(config.variableFormatters)) {
+        throw Error('`variableFormatters` must be an array.');
+      }
+
+      for (const formatter of config.variableFormatters as unknown[]) {
+        if (!isPlainObject(formatter)) {
+          throw Error('Each element of `variableFormatters` must be an object.');
+        }
+
+        const { className, is, value, children } = formatter as Record<string, unknown>;
+        if (!isString(className) && !isString(is)) {
+          throw Error('Each element of `variableFormatters` must have the `className` or `is` attribute.');
+        }
+        if (!isString(value)) {
+          throw Error('The `value` attribute of `variableFormatters` must be a string.');
+        }
+        if (children !== undefined && !(Array.isArray(children) && children.every((child) => isString(child)))) {
+          throw Error('The `children` attribute of `variableFormatters` must be an array of strings.');
+        }
+      }
+    })();
+
     // init trace
     ((): void => {
       if (!isBoolean(config.trace)) {
@@ -582,6 +692,25 @@ class AhkConfigurationProvider implements vscode.DebugConfigurationProvider {
       }
     })();
 
+    // init recordProtocol
+    ((): void => {
+      if (config.recordProtocol === false) {
+        return;
+      }
+      if (config.recordProtocol === true) {
+        config.recordProtocol = os.tmpdir();
+        return;
+      }
+      if (!isString(config.recordProtocol)) {
+        throw Error('`recordProtocol` must be a boolean or directory path.');
+      }
+
+      config.recordProtocol = path.resolve(config.recordProtocol);
+      if (!isDirectory(config.recordProtocol)) {
+        throw Error(`\`recordProtocol\` must be a directory path that exists.\nSpecified: "${String(normalizePath(config.recordProtocol))}"`);
+      }
+    })();
+
     return config;
   }
 }
@@ -595,6 +724,7 @@ export const activate = (context: vscode.ExtensionContext): void => {
   const provider = new AhkConfigurationProvider();
 
   registerCommands(context);
+  registerStopHistoryView(context);
 
   context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('ahk', provider));
   context.subscriptions.push(vscode.debug.registerDebugConfigurationProvider('autohotkey', provider));
@@ -2,6 +2,7 @@ import * as dbgp from '../dbgpSession';
 import { URI } from 'vscode-uri';
 import { CaseInsensitiveMap } from './CaseInsensitiveMap';
 import { equalsIgnoreCase } from './stringUtils';
+import { TraceLogger } from './TraceLogger';
 
 export type BreakpointLogGroup = 'start' | 'startCollapsed' | 'end' | undefined;
 export interface BreakpointAdvancedData {
@@ -10,6 +11,8 @@ export interface BreakpointAdvancedData {
   logMessage?: string;
   logGroup?: BreakpointLogGroup;
   hidden?: boolean;
+  // Set if registered as a function breakpoint
+  functionName?: string;
   hitCount: number;
   unverifiedLine?: number;
   unverifiedColumn?: number;
@@ -25,6 +28,7 @@ export class Breakpoint implements BreakpointAdvancedData {
   public logMessage: string;
   public logGroup: BreakpointLogGroup;
   public hidden: boolean;
+  public functionName?: string;
   public hitCount = 0;
   public unverifiedLine?: number;
   public unverifiedColumn?: number;
@@ -52,6 +56,7 @@ export class Breakpoint implements BreakpointAdvancedData {
     this.logMessage = advancedData?.logMessage ?? '';
     this.logGroup = advancedData?.logGroup;
     this.hidden = advancedData?.hidden ?? false;
+    this.functionName = advancedData?.functionName;
     this.unverifiedLine = advancedData?.unverifiedLine ?? dbgpBreakpoint.line;
     this.unverifiedColumn = advancedData?.unverifiedColumn;
     this.action = advancedData?.action;
@@ -91,8 +96,10 @@ export class LineBreakpoints extends Array<Breakpoint> {
 export class BreakpointManager {
   private readonly session: dbgp.Session;
   private readonly breakpointsMap = new CaseInsensitiveMap<string, LineBreakpoints>();
-  constructor(session: dbgp.Session) {
+  private readonly logger?: TraceLogger;
+  constructor(session: dbgp.Session, logger?: TraceLogger) {
     this.session = session;
+    this.logger = logger;
   }
   public hasBreakpoint(fileUri: string, line: number): boolean {
     const key = this.createKey(fileUri, line);
@@ -107,6 +114,9 @@ export class BreakpointManager {
     }
     return null;
   }
+  public getAllBreakpoints(): Breakpoint[] {
+    return Array.from(this.breakpointsMap.values()).flat();
+  }
   public async registerBreakpoint(fileUriOrBreakpoint: string | Breakpoint, line: number, advancedData?: BreakpointAdvancedData): Promise<Breakpoint> {
     let fileUri: string, unverifiedLine: number, _advancedData: BreakpointAdvancedData | undefined;
     if (fileUriOrBreakpoint instanceof Breakpoint) {
@@ -154,7 +164,50 @@ export class BreakpointManager {
     }
     return settedBreakpoint;
   }
-  public async unregisterLineBreakpoints(fileUri: string, line: number): Promise<void> {
+  /**
+   * Take over the hit counts from another manager, e.g. the one of the script before the restart. The breakpoints are matched by the requested position.
+   * Hidden breakpoints are excluded since they are registered again from the debug directives.
+   */
+  public restoreHitCounts(source: BreakpointManager): void {
+    const breakpoints = this.getAllBreakpoints().filter((breakpoint) => !breakpoint.hidden);
+    for (const sourceBreakpoint of source.getAllBreakpoints()) {
+      if (sourceBreakpoint.hidden) {
+        continue;
+      }
+
+      const breakpoint = breakpoints.find((breakpoint) => {
+        return equalsIgnoreCase(breakpoint.filePath, sourceBreakpoint.filePath)
+          && breakpoint.unverifiedLine === sourceBreakpoint.unverifiedLine
+          && breakpoint.unverifiedColumn === sourceBreakpoint.unverifiedColumn
+          && breakpoint.functionName === sourceBreakpoint.functionName;
+      });
+      if (breakpoint) {
+        breakpoint.hitCount = sourceBreakpoint.hitCount;
+      }
+    }
+  }
+  /**
+   * Set a one-shot breakpoint for "Run to Cursor". It is not registered, so it does not affect the hit counts and log points.
+   * The engine can only set one breakpoint per line, so if a registered breakpoint already exists on that line, it is returned as is instead.
+   */
+  public async setTemporaryBreakpoint(fileUri: string, line: number): Promise<dbgp.Breakpoint> {
+    const registered = this.getLineBreakpoints(fileUri, line);
+    if (registered && 0 < registered.length) {
+      return (await this.session.sendBreakpointGetCommand(registered[0].id)).breakpoint;
+    }
+
+    const { id } = await this.session.sendBreakpointSetCommand(fileUri, line, true);
+    const { breakpoint } = await this.session.sendBreakpointGetCommand(id);
+
+    // The engine moved it to the line of a registered breakpoint and overwrote it as temporary, so restore it
+    const movedTo = this.getLineBreakpoints(breakpoint.fileUri, breakpoint.line);
+    if (movedTo && 0 < movedTo.length) {
+      await this.session.sendBreakpointSetCommand(breakpoint.fileUri, breakpoint.line);
+      breakpoint.temporary = false;
+    }
+    return breakpoint;
+  }
+  public async unregisterLineBreakpoints(fileUri: string, line: number, keep = (breakpoint: Breakpoint): boolean => breakpoint.hidden): Promise<void> {
     const breakpoints = this.getLineBreakpoints(fileUri, line);
     if (!breakpoints || breakpoints.length === 0) {
       return;
@@ -162,27 +215,42 @@ export class BreakpointManager {
 
     const id = breakpoints[0].id;
     const key = this.createKey(fileUri, line);
-    const hiddenBreakpoints = breakpoints.filter((breakpoint) => breakpoint.hidden);
-    if (hiddenBreakpoints.length === 0 && this.breakpointsMap.has(key)) {
+    const keptBreakpoints = breakpoints.filter(keep);
+    if (keptBreakpoints.length === 0 && this.breakpointsMap.has(key)) {
       try {
         await this.session.sendBreakpointRemoveCommand(id);
         this.breakpointsMap.delete(key);
       }
-      catch {
+      catch (error: unknown) {
+        // The breakpoints are kept, since they remain in the engine
+        this.logger?.log(`Failed to remove the breakpoint ${id}. ${error instanceof Error ? error.message : String(error)}`);
       }
     }
     else {
-      this.breakpointsMap.set(key, new LineBreakpoints(...hiddenBreakpoints));
+      this.breakpointsMap.set(key, new LineBreakpoints(...keptBreakpoints));
     }
   }
   public async unregisterBreakpointsInFile(fileUri: string): Promise<Breakpoint[]> {
     const targetFilePath = URI.parse(fileUri).fsPath;
+    const keep = (breakpoint: Breakpoint): boolean => breakpoint.hidden || Boolean(breakpoint.functionName);
 
     const removedBreakpoints: Breakpoint[] = [];
     for await (const [ , lineBreakpoints ] of this.breakpointsMap) {
       if (equalsIgnoreCase(targetFilePath, lineBreakpoints.filePath)) {
-        await this.unregisterLineBreakpoints(fileUri, lineBreakpoints.line);
-        removedBreakpoints.push(...lineBreakpoints.filter((breakpoint) => !breakpoint.hidden));
+        await this.unregisterLineBreakpoints(fileUri, lineBreakpoints.line, keep);
+        removedBreakpoints.push(...lineBreakpoints.filter((breakpoint) => !keep(breakpoint)));
+      }
+    }
+    return removedBreakpoints;
+  }
+  public async unregisterFunctionBreakpoints(): Promise<Breakpoint[]> {
+    const keep = (breakpoint: Breakpoint): boolean => !breakpoint.functionName;
+
+    const removedBreakpoints: Breakpoint[] = [];
+    for await (const [ , lineBreakpoints ] of this.breakpointsMap) {
+      if (lineBreakpoints.some((breakpoint) => !keep(breakpoint))) {
+        await this.unregisterLineBreakpoints(lineBreakpoints.fileUri, lineBreakpoints.line, keep);
+        removedBreakpoints.push(...lineBreakpoints.filter((breakpoint) => !keep(breakpoint)));
       }
     }
     return removedBreakpoints;
@@ -0,0 +1,56 @@
+export class CancellationError extends Error {
+  constructor(message = 'cancelled') {
+    super(message);
+    this.name = 'CancellationError';
+  }
+}
+export interface CancellationToken {
+  readonly isCancellationRequested: boolean;
+  onCancellationRequested: (listener: () => void) => void;
+}
+export class CancellationTokenSource implements CancellationToken {
+  private isCancelled = false;
+  private readonly listeners: Array<() => void> = [];
+  // Only the source can cancel, so the token is exposed as the read-only interface
+  public get token(): CancellationToken {
+    return this;
+  }
+  public get isCancellationRequested(): boolean {
+    return this.isCancelled;
+  }
+  public onCancellationRequested(listener: () => void): void {
+    if (this.isCancelled) {
+      listener();
+      return;
+    }
+    this.listeners.push(listener);
+  }
+  public cancel(): void {
+    if (this.isCancelled) {
+      return;
+    }
+    this.isCancelled = true;
+    this.listeners.splice(0).forEach((listener) => listener());
+  }
+}
+
+export const throwIfCancelled = (token?: CancellationToken): void => {
+  if (token?.isCancellationRequested) {
+    throw new CancellationError();
+  }
+};
+/**
+ * Stop waiting for the promise when cancelled. The DBGp command itself cannot be aborted, but its response is still consumed by the session, so the session stays usable.
+ */
+export const raceCancellation = async<T>(promise: Promise<T>, token?: CancellationToken): Promise<T> => {
+  if (!token) {
+    return promise;
+  }
+  throwIfCancelled(token);
+  return Promise.race([
+    promise,
+    new Promise<T>((resolve, reject) => {
+      token.onCancellationRequested(() => reject(new CancellationError()));
+    }),
+  ]);
+};
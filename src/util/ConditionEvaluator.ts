@@ -80,7 +80,7 @@ const regexCompare: Operator = function(input, ahkRegex) {
   const regex = ahkRegexToJsRegex(String(ahkRegex));
   return regex.test(String(input));
 };
-const comparisonOperators: { [key: string]: Operator} = {
+export const comparisonOperators: { [key: string]: Operator} = {
   '=': equalsIgnoreCase,
   '==': equals,
   '!=': not(equalsIgnoreCase),
@@ -347,14 +347,14 @@ export class ConditionalEvaluator {
     }
     return false;
   }
-  private async evalProperty(parsed): Promise<string | dbgp.Property | undefined> {
+  private async evalProperty(parsed, stackFrame?: dbgp.StackFrame): Promise<string | dbgp.Property | undefined> {
     if (!('type' in parsed || 'value' in parsed)) {
       return undefined;
     }
 
     const propertyName = parsed.value;
     if (parsed?.extraInfo === 'countof') {
-      const property = await this.session.evaluate(propertyName);
+      const property = await this.session.evaluate(propertyName, stackFrame);
       if (property instanceof dbgp.ObjectProperty) {
         const maxIndex = property.maxIndex;
         if (maxIndex) {
@@ -368,9 +368,9 @@ export class ConditionalEvaluator {
       }
       return undefined;
     }
-    return this.session.evaluate(propertyName);
+    return this.session.evaluate(propertyName, stackFrame);
   }
-  private async evalValue(parsed, metaVariableMap: MetaVariableValueMap): Promise<string | number | dbgp.Property | MetaVariableValue | LazyMetaVariableValue | undefined> {
+  public async evalValue(parsed, metaVariableMap: MetaVariableValueMap, stackFrame?: dbgp.StackFrame): Promise<string | number | dbgp.Property | MetaVariableValue | LazyMetaVariableValue | undefined> {
     if (!('type' in parsed || 'value' in parsed)) {
       return undefined;
     }
@@ -380,7 +380,7 @@ export class ConditionalEvaluator {
       return metaVariable;
     }
     else if (parsed.type === 'PropertyName') {
-      return this.evalProperty(parsed);
+      return this.evalProperty(parsed, stackFrame);
     }
     else if (parsed.type === 'Primitive') {
       const primitive = parsed.value;
@@ -0,0 +1,180 @@
+import * as dbgp from '../dbgpSession';
+import { equalsIgnoreCase } from './stringUtils';
+
+/**
+ * The variable to be watched. Local variables are watched only while the function that owns them is the top frame.
+ */
+export interface DataBreakpointTarget {
+  contextName: string;
+  // e.g. `Foo()`. Empty for variables that do not belong to a function frame, e.g. global variables
+  functionName: string;
+  fullName: string;
+}
+export interface DataBreakpointAdvancedData {
+  condition?: string;
+  hitCondition?: string;
+}
+
+export const createDataId = (target: DataBreakpointTarget): string => {
+  return `${target.contextName}:${target.functionName}:${target.fullName}`;
+};
+export const parseDataId = (dataId: string): DataBreakpointTarget | undefined => {
+  const match = dataId.match(/^(?<contextName>[^:]+):(?<functionName>[^:]*):(?<fullName>.+)$/u);
+  if (!match?.groups) {
+    return undefined;
+  }
+  const { contextName, functionName, fullName } = match.groups;
+  return { contextName, functionName, fullName };
+};
+
+export class DataBreakpoint implements DataBreakpointTarget, DataBreakpointAdvancedData {
+  private static nextId = 1;
+  public readonly id: number;
+  public readonly dataId: string;
+  public readonly contextName: string;
+  public readonly functionName: string;
+  public readonly fullName: string;
+  public condition: string;
+  public hitCondition: string;
+  public hitCount = 0;
+  // A snapshot of the value to be compared. Primitives are compared by value and objects by address. `undefined` means out of scope
+  public lastValue?: string;
+  // The previous value displayed when it stops, e.g. `1 → 2`
+  public lastDisplayValue?: string;
+  constructor(target: DataBreakpointTarget, advancedData?: DataBreakpointAdvancedData) {
+    this.id = DataBreakpoint.nextId++;
+    this.dataId = createDataId(target);
+    this.contextName = target.contextName;
+    this.functionName = target.functionName;
+    this.fullName = target.fullName;
+    this.condition = advancedData?.condition ?? '';
+    this.hitCondition = advancedData?.hitCondition ?? '';
+  }
+}
+export interface DataBreakpointChange {
+  breakpoint: DataBreakpoint;
+  oldValue: string;
+  newValue: string;
+}
+
+const toSnapshot = (property: dbgp.Property | undefined): { value: string; displayValue: string } => {
+  if (!property) {
+    return { value: 'undefined:', displayValue: 'Not initialized' };
+  }
+  if (property instanceof dbgp.ObjectProperty) {
+    return { value: `object:${property.address}`, displayValue: `${property.className} (${property.address})` };
+  }
+
+  const primitive = property as dbgp.PrimitiveProperty;
+  return { value: `${primitive.type}:${primitive.value}`, displayValue: primitive.type === 'string' ? `"${primitive.value}"` : primitive.value };
+};
+
+/**
+ * Emulate data breakpoints, since the engine does not support them. The adapter steps into each line and calls findChanges to compare the values with the previous ones.
+ */
+export class DataBreakpointManager {
+  private readonly session: dbgp.Session;
+  private breakpoints: DataBreakpoint[] = [];
+  constructor(session: dbgp.Session) {
+    this.session = session;
+  }
+  public get isEmpty(): boolean {
+    return this.breakpoints.length === 0;
+  }
+  public getAllBreakpoints(): DataBreakpoint[] {
+    return this.breakpoints.slice();
+  }
+  /**
+   * Replace all data breakpoints. The hit counts and snapshots of the ones that are still set are kept.
+   * @param takeSnapshots Whether to take the snapshots of the new ones now. If not, they are taken on the next call of findChanges
+   */
+  public async setBreakpoints(targets: Array<DataBreakpointTarget & DataBreakpointAdvancedData>, takeSnapshots = true): Promise<DataBreakpoint[]> {
+    const prevBreakpoints = this.breakpoints;
+    this.breakpoints = targets.map((target) => {
+      const breakpoint = new DataBreakpoint(target, target);
+      const prevBreakpoint = prevBreakpoints.find((prevBreakpoint) => prevBreakpoint.dataId === breakpoint.dataId);
+      if (prevBreakpoint) {
+        breakpoint.hitCount = prevBreakpoint.hitCount;
+        breakpoint.lastValue = prevBreakpoint.lastValue;
+        breakpoint.lastDisplayValue = prevBreakpoint.lastDisplayValue;
+      }
+      return breakpoint;
+    });
+
+    // Take the snapshots of the new ones, as the base of the comparison
+    if (takeSnapshots) {
+      await this.takeMissingSnapshots();
+    }
+    return this.breakpoints.slice();
+  }
+  /**
+   * Take the snapshots of the ones that do not have them yet, e.g. the ones set while running.
+   */
+  public async takeMissingSnapshots(): Promise<void> {
+    await this.updateSnapshots(this.breakpoints.filter((breakpoint) => breakpoint.lastValue === undefined));
+  }
+  /**
+   * Take over the hit counts from another manager, e.g. the one of the script before the restart. The snapshots are not taken over, since the values are different.
+   */
+  public restoreHitCounts(source: DataBreakpointManager): void {
+    for (const breakpoint of this.breakpoints) {
+      const sourceBreakpoint = source.breakpoints.find((sourceBreakpoint) => sourceBreakpoint.dataId === breakpoint.dataId);
+      if (sourceBreakpoint) {
+        breakpoint.hitCount = sourceBreakpoint.hitCount;
+      }
+    }
+  }
+  /**
+   * Compare the current values with the snapshots and update them. The hit counts of the changed breakpoints are incremented.
+   */
+  public async findChanges(): Promise<DataBreakpointChange[]> {
+    const prevSnapshots = this.breakpoints.map((breakpoint) => ({ value: breakpoint.lastValue, displayValue: breakpoint.lastDisplayValue }));
+    const updatedBreakpoints = await this.updateSnapshots(this.breakpoints);
+
+    const changes: DataBreakpointChange[] = [];
+    for (const [ i, breakpoint ] of this.breakpoints.entries()) {
+      const prevSnapshot = prevSnapshots[i];
+      if (!updatedBreakpoints.includes(breakpoint) || prevSnapshot.value === undefined || prevSnapshot.value === breakpoint.lastValue) {
+        continue;
+      }
+
+      breakpoint.hitCount++;
+      changes.push({ breakpoint, oldValue: prevSnapshot.displayValue!, newValue: breakpoint.lastDisplayValue! });
+    }
+    return changes;
+  }
+  /**
+   * Take the snapshots of the variables in scope. The snapshots of the others are kept so that they can be compared when they come back into scope.
+   * @returns The breakpoints whose snapshots have been updated
+   */
+  private async updateSnapshots(breakpoints: DataBreakpoint[]): Promise<DataBreakpoint[]> {
+    if (breakpoints.length === 0) {
+      return [];
+    }
+
+    const { stackFrames } = await this.session.sendStackGetCommand();
+    const stackFrame = stackFrames[0] as dbgp.StackFrame | undefined;
+    if (!stackFrame) {
+      return [];
+    }
+    const { contexts } = await this.session.sendContextNamesCommand(stackFrame);
+
+    const updatedBreakpoints: DataBreakpoint[] = [];
+    for await (const breakpoint of breakpoints) {
+      if (breakpoint.functionName && !equalsIgnoreCase(stackFrame.name, breakpoint.functionName)) {
+        continue;
+      }
+      const context = contexts.find((context) => equalsIgnoreCase(context.name, breakpoint.contextName));
+      if (!context) {
+        continue;
+      }
+
+      const property = await this.session.fetchProperty(context, breakpoint.fullName).catch(() => undefined);
+      const { value, displayValue } = toSnapshot(property);
+      breakpoint.lastValue = value;
+      breakpoint.lastDisplayValue = displayValue;
+      updatedBreakpoints.push(breakpoint);
+    }
+    return updatedBreakpoints;
+  }
+}
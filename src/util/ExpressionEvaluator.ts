@@ -0,0 +1,337 @@
+import * as P from 'parsimmon';
+import { AhkVersion } from '@zero-plusplus/autohotkey-utilities';
+import { DebugProtocol } from 'vscode-debugprotocol';
+import * as dbgp from '../dbgpSession';
+import { ConditionalEvaluator, comparisonOperators } from './ConditionEvaluator';
+import { createParser } from './ConditionParser';
+import { MetaVariableValueMap, escapeAhk, formatInteger } from './VariableManager';
+import { isFloatLike, isNumberLike } from './util';
+
+export interface NumberValue {
+  type: 'integer' | 'float';
+  value: number;
+}
+export type ExpressionValue = string | NumberValue | dbgp.ObjectProperty;
+export type ExpressionNode =
+  | { type: 'Operand'; value: any }
+  | { type: 'Call'; name: string; args: ExpressionNode[] }
+  | { type: 'Unary'; operator: string; operand: ExpressionNode }
+  | { type: 'Binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'Ternary'; condition: ExpressionNode; whenTrue: ExpressionNode; whenFalse: ExpressionNode };
+
+// Methods that are evaluated as `countof` instead of being called
+const countMethodNames = [ 'length', 'count', 'maxindex' ];
+const keywordRegExp = /(?:and|or|not|is|in|has|contains)(?![\w#@$])/ui;
+
+const operator = (regexp: RegExp): P.Parser<string> => P.optWhitespace.then(P.regex(regexp)).skip(P.optWhitespace);
+const binaryLeft = (operatorParser: P.Parser<string>, operandParser: P.Parser<ExpressionNode>): P.Parser<ExpressionNode> => {
+  return P.seqMap(operandParser, P.seq(operatorParser, operandParser).many(), (first, rest) => {
+    return rest.reduce<ExpressionNode>((left, [ operatorName, right ]) => ({ type: 'Binary', operator: operatorName.toLowerCase(), left, right }), first);
+  });
+};
+/**
+ * Create the parser of the expressions evaluated by the debug adapter. The operands are those of `ConditionParser`.
+ * The operators follow the precedence of AutoHotkey, from the ternary operator down to the power operator.
+ */
+export const createExpressionParser = (version: AhkVersion): P.Parser<ExpressionNode> => {
+  const conditionParser = createParser(version);
+  const language = P.createLanguage({
+    Expression(rules) {
+      return P.optWhitespace.then(rules.Ternary).skip(P.optWhitespace);
+    },
+    Ternary(rules) {
+      return P.seqMap(
+        rules.LogicalOr,
+        P.seq(operator(/\?(?!\?)/u), rules.Ternary, operator(/:(?!=)/u), rules.Ternary).atMost(1),
+        (condition, rest): ExpressionNode => {
+          if (rest.length === 0) {
+            return condition;
+          }
+          const [ [ , whenTrue, , whenFalse ] ] = rest;
+          return { type: 'Ternary', condition, whenTrue, whenFalse };
+        },
+      );
+    },
+    LogicalOr(rules) {
+      return binaryLeft(P.alt(operator(/\|\|/u), P.regex(/\s+or\s+/ui).map(() => '||')), rules.LogicalAnd);
+    },
+    LogicalAnd(rules) {
+      return binaryLeft(P.alt(operator(/&&/u), P.regex(/\s+and\s+/ui).map(() => '&&')), rules.LogicalNot);
+    },
+    LogicalNot(rules) {
+      return P.alt(
+        P.seqMap(P.regex(/not\s+/ui), rules.LogicalNot, (_, operand): ExpressionNode => ({ type: 'Unary', operator: '!', operand })),
+        rules.Equality,
+      );
+    },
+    Equality(rules) {
+      return binaryLeft(operator(/!==|==|!=|~=|!~|=(?!>)/u), rules.Relational);
+    },
+    Relational(rules) {
+      return binaryLeft(operator(/<=|>=|<(?!<)|>(?!>)/u), rules.Concatenation);
+    },
+    Concatenation(rules) {
+      // `a . b` or `a b`. A dot without spaces is a property accessor
+      return binaryLeft(P.alt(P.regex(/\s+\.\s+/u).map(() => '.'), P.regex(/\s+/u).map(() => '.')), rules.Additive);
+    },
+    Additive(rules) {
+      return binaryLeft(operator(/\+(?![+=])|-(?![-=])/u), rules.Multiplicative);
+    },
+    Multiplicative(rules) {
+      return binaryLeft(operator(/\/\/(?!=)|\*(?![*=])|\/(?![/=])/u), rules.Unary);
+    },
+    Unary(rules) {
+      return P.alt(
+        P.seqMap(P.regex(/[-!]/u), P.optWhitespace, rules.Unary, (operatorName, _, operand): ExpressionNode => ({ type: 'Unary', operator: operatorName, operand })),
+        rules.Power,
+      );
+    },
+    Power(rules) {
+      return P.seqMap(rules.Primary, P.seq(operator(/\*\*/u), rules.Unary).atMost(1), (base, rest): ExpressionNode => {
+        if (rest.length === 0) {
+          return base;
+        }
+        return { type: 'Binary', operator: '**', left: base, right: rest[0][1] };
+      });
+    },
+    Primary(rules) {
+      return P.alt(
+        P.string('(').then(rules.Expression).skip(P.string(')')),
+        rules.Call,
+        P.notFollowedBy(P.regex(keywordRegExp)).then(conditionParser.Operand).map((value): ExpressionNode => ({ type: 'Operand', value })),
+      );
+    },
+    Call(rules) {
+      return P.seqMap(
+        conditionParser.PropertyName,
+        P.string('(').then(P.optWhitespace).then(P.sepBy(rules.Expression, P.string(','))).skip(P.string(')')),
+        (propertyName, args): ExpressionNode => ({ type: 'Call', name: propertyName.value, args }),
+      );
+    },
+  });
+  return language.Expression as P.Parser<ExpressionNode>;
+};
+
+/**
+ * Evaluate AutoHotkey expressions on the debug adapter side, e.g. `arr.Length() - 1`, `a + b`, `x > 5 && y`, `"prefix" name`.
+ * The operands are resolved by `ConditionalEvaluator`, so variables are fetched with `Session.evaluate` and nothing in the script is executed.
+ * Therefore function calls are refused, except for `Length()`, `Count()` and `MaxIndex()` without arguments, which are evaluated as `countof`.
+ */
+export class ExpressionEvaluator {
+  private readonly session: dbgp.Session;
+  private readonly conditionalEvaluator: ConditionalEvaluator;
+  private readonly parser: P.Parser<ExpressionNode>;
+  private get isV2(): boolean {
+    return 2 <= this.session.ahkVersion.mejor;
+  }
+  constructor(session: dbgp.Session, conditionalEvaluator: ConditionalEvaluator) {
+    this.session = session;
+    this.conditionalEvaluator = conditionalEvaluator;
+    this.parser = createExpressionParser(session.ahkVersion);
+  }
+  public parse(expression: string): ExpressionNode | undefined {
+    const parsed = this.parser.parse(expression);
+    return parsed.status ? parsed.value : undefined;
+  }
+  public async eval(expression: string, metaVariableMap: MetaVariableValueMap, stackFrame?: dbgp.StackFrame): Promise<ExpressionValue> {
+    const node = this.parse(expression);
+    if (!node) {
+      throw Error('Error: Could not parse the expression.');
+    }
+    return this.evalNode(node, metaVariableMap, stackFrame);
+  }
+  private async evalNode(node: ExpressionNode, metaVariableMap: MetaVariableValueMap, stackFrame?: dbgp.StackFrame): Promise<ExpressionValue> {
+    switch (node.type) {
+      case 'Operand': return this.evalOperand(node.value, metaVariableMap, stackFrame);
+      case 'Call': return this.evalCall(node.name, node.args, stackFrame);
+      case 'Unary': {
+        const value = await this.evalNode(node.operand, metaVariableMap, stackFrame);
+        if (node.operator === '!') {
+          return this.toBoolean(!this.isTruthy(value));
+        }
+        return this.calculate('-', { type: 'integer', value: 0 }, value);
+      }
+      case 'Ternary': {
+        const condition = await this.evalNode(node.condition, metaVariableMap, stackFrame);
+        return this.evalNode(this.isTruthy(condition) ? node.whenTrue : node.whenFalse, metaVariableMap, stackFrame);
+      }
+      case 'Binary': {
+        const left = await this.evalNode(node.left, metaVariableMap, stackFrame);
+
+        // Short-circuit evaluation. v1 returns 1 or 0, v2 returns the operand that determined the result
+        if (node.operator === '&&' || node.operator === '||') {
+          const isDetermined = node.operator === '&&' ? !this.isTruthy(left) : this.isTruthy(left);
+          if (isDetermined) {
+            return this.isV2 ? left : this.toBoolean(left);
+          }
+          const right = await this.evalNode(node.right, metaVariableMap, stackFrame);
+          return this.isV2 ? right : this.toBoolean(right);
+        }
+
+        const right = await this.evalNode(node.right, metaVariableMap, stackFrame);
+        if (node.operator === '.') {
+          return `${this.toText(left)}${this.toText(right)}`;
+        }
+        if (node.operator in comparisonOperators) {
+          const toComparable = (value: ExpressionValue): string | number | { address: number } => {
+            if (value instanceof dbgp.ObjectProperty) {
+              return { address: value.address };
+            }
+            return typeof value === 'string' ? value : value.value;
+          };
+          return this.toBoolean(comparisonOperators[node.operator](toComparable(left), toComparable(right)));
+        }
+        return this.calculate(node.operator, left, right);
+      }
+      default: break;
+    }
+    throw Error('Error: Unsupported expression.');
+  }
+  private async evalOperand(parsed, metaVariableMap: MetaVariableValueMap, stackFrame?: dbgp.StackFrame): Promise<ExpressionValue> {
+    const value = await this.conditionalEvaluator.evalValue(parsed, metaVariableMap, stackFrame);
+    if (value instanceof dbgp.ObjectProperty) {
+      return value;
+    }
+    if (value instanceof dbgp.PrimitiveProperty) {
+      if (value.type === 'integer' || value.type === 'float') {
+        return { type: value.type, value: Number(value.value) };
+      }
+      return value.value;
+    }
+    if (typeof value === 'number') {
+      return { type: Number.isInteger(value) ? 'integer' : 'float', value };
+    }
+    if (typeof value === 'string') {
+      return value;
+    }
+    if (typeof value === 'undefined') {
+      if (this.isV2 && parsed.type === 'PropertyName') {
+        throw Error(`Error: \`${String(parsed.value)}\` is not available.`);
+      }
+      return '';
+    }
+    throw Error('Error: Meta variables that have children cannot be used in expressions.');
+  }
+  private async evalCall(name: string, args: ExpressionNode[], stackFrame?: dbgp.StackFrame): Promise<ExpressionValue> {
+    const refuse = (): never => {
+      throw Error(`Error: Calling \`${name}()\` is not supported, since it would execute the script.`);
+    };
+
+    const match = name.match(/^(?<objectName>.+)\.(?<methodName>[\w#@$]+)$/u);
+    if (!match?.groups || 0 < args.length || !countMethodNames.includes(match.groups.methodName.toLowerCase())) {
+      return refuse();
+    }
+
+    const { objectName, methodName } = match.groups;
+    const object = await this.session.evaluate(objectName, stackFrame);
+    if (!(object instanceof dbgp.ObjectProperty)) {
+      return refuse();
+    }
+
+    // Overridden by the script
+    const method = await this.session.evaluate(`${objectName}.${methodName}`, stackFrame).catch(() => undefined);
+    if (method instanceof dbgp.ObjectProperty) {
+      return refuse();
+    }
+
+    const count = await this.conditionalEvaluator.evalValue({ type: 'PropertyName', value: objectName, extraInfo: 'countof' }, new MetaVariableValueMap(), stackFrame);
+    return { type: 'integer', value: Number(count ?? 0) };
+  }
+  private calculate(operatorName: string, left: ExpressionValue, right: ExpressionValue): ExpressionValue {
+    const a = this.toNumber(left);
+    const b = this.toNumber(right);
+    if (!a || !b) {
+      if (this.isV2) {
+        throw Error(`Error: Expected a number for \`${operatorName}\` but got ${a ? this.describe(right) : this.describe(left)}.`);
+      }
+      return '';
+    }
+
+    const isInteger = a.type === 'integer' && b.type === 'integer';
+    switch (operatorName) {
+      case '+': return { type: isInteger ? 'integer' : 'float', value: a.value + b.value };
+      case '-': return { type: isInteger ? 'integer' : 'float', value: a.value - b.value };
+      case '*': return { type: isInteger ? 'integer' : 'float', value: a.value * b.value };
+      case '**': return { type: isInteger && 0 <= b.value ? 'integer' : 'float', value: a.value ** b.value };
+      case '/':
+      case '//': {
+        if (b.value === 0) {
+          if (this.isV2) {
+            throw Error('Error: Divide by zero.');
+          }
+          return '';
+        }
+        if (operatorName === '/') {
+          return { type: 'float', value: a.value / b.value };
+        }
+        return { type: isInteger ? 'integer' : 'float', value: Math.floor(a.value / b.value) };
+      }
+      default: break;
+    }
+    throw Error(`Error: Unsupported operator \`${operatorName}\`.`);
+  }
+  private toNumber(value: ExpressionValue): NumberValue | undefined {
+    if (value instanceof dbgp.ObjectProperty) {
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      return value;
+    }
+    if (!isNumberLike(value)) {
+      return undefined;
+    }
+    return { type: isFloatLike(value) ? 'float' : 'integer', value: Number(value.trim()) };
+  }
+  private toText(value: ExpressionValue): string {
+    if (value instanceof dbgp.ObjectProperty) {
+      if (this.isV2) {
+        throw Error(`Error: Expected a string but got ${this.describe(value)}.`);
+      }
+      return '';
+    }
+    return typeof value === 'string' ? value : formatNumberValue(value, this.session.ahkVersion);
+  }
+  private toBoolean(value: ExpressionValue | boolean): NumberValue {
+    const result = typeof value === 'boolean' ? value : this.isTruthy(value);
+    return { type: 'integer', value: result ? 1 : 0 };
+  }
+  private isTruthy(value: ExpressionValue): boolean {
+    if (value instanceof dbgp.ObjectProperty) {
+      return true;
+    }
+    if (typeof value !== 'string') {
+      return value.value !== 0;
+    }
+    if (isNumberLike(value)) {
+      return Number(value.trim()) !== 0;
+    }
+    return value !== '';
+  }
+  private describe(value: ExpressionValue): string {
+    if (value instanceof dbgp.ObjectProperty) {
+      return `an object of ${value.className}`;
+    }
+    return typeof value === 'string' ? `"${value}"` : formatNumberValue(value, this.session.ahkVersion);
+  }
+}
+
+export const formatNumberValue = (value: NumberValue, ahkVersion: AhkVersion, format?: DebugProtocol.ValueFormat): string => {
+  if (value.type === 'integer') {
+    return formatInteger(String(Math.trunc(value.value)), format);
+  }
+  // v1 formats floats with the default `SetFormat` of `0.6`
+  if (ahkVersion.mejor < 2) {
+    return value.value.toFixed(6);
+  }
+  const text = String(value.value);
+  return (/[.e]|Infinity|NaN/u).test(text) ? text : `${text}.0`;
+};
+/**
+ * Format the primitive result of ExpressionEvaluator in the same way as `formatProperty`.
+ */
+export const formatExpressionValue = (value: string | NumberValue, ahkVersion: AhkVersion, format?: DebugProtocol.ValueFormat): { result: string; type: string } => {
+  if (typeof value === 'string') {
+    return { result: `"${escapeAhk(value, ahkVersion)}"`, type: 'string' };
+  }
+  return { result: formatNumberValue(value, ahkVersion, format), type: value.type };
+};
@@ -0,0 +1,170 @@
+import * as net from 'net';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { WriteStream, createWriteStream, readFileSync } from 'fs';
+import { AutoHotkeyProcess } from './AutoHotkeyLuncher';
+import { now } from './util';
+
+export type ProtocolDirection = 'send' | 'receive';
+export interface ProtocolRecord {
+  time: string;
+  // Id of `dbgp.Session`. A script that starts other scripts with `/Debug` is recorded with multiple ids
+  session: number;
+  direction: ProtocolDirection;
+  // For `send`, the command string without the trailing NULL. For `receive`, the XML of the response
+  data: string;
+}
+
+export const createRecordFileName = (date = new Date()): string => {
+  const pad = (value: number, length = 2): string => String(value).padStart(length, '0');
+  const timestamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  return `dbgp-${timestamp}.jsonl`;
+};
+export const loadProtocolRecords = (filePath: string): ProtocolRecord[] => {
+  return readFileSync(filePath, 'utf-8')
+    .split(/\r\n|\n/u)
+    .filter((line) => line.trim() !== '')
+    .map((line) => JSON.parse(line) as ProtocolRecord);
+};
+
+/**
+ * Write the DBGp traffic to a file in JSON Lines format. The file can be passed to `replayProtocol` to reproduce the debugging without AutoHotkey.
+ */
+export class ProtocolRecorder {
+  public readonly filePath: string;
+  private readonly stream: WriteStream;
+  constructor(dirPath: string) {
+    this.filePath = path.resolve(dirPath, createRecordFileName());
+    this.stream = createWriteStream(this.filePath, { encoding: 'utf-8' });
+  }
+  public record(session: number, direction: ProtocolDirection, data: string): void {
+    if (!this.stream.writable) {
+      return;
+    }
+
+    const record: ProtocolRecord = { time: now(), session, direction, data };
+    this.stream.write(`${JSON.stringify(record)}\n`);
+  }
+  public async close(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      this.stream.end(resolve);
+    });
+  }
+}
+
+/**
+ * Play the role of AutoHotkey by sending back the recorded responses.
+ * The commands sent by the debugger adapter are not evaluated; each one is simply paired with the next recorded command, and the responses that followed it are returned with the transaction id rewritten.
+ */
+export class ProtocolReplayer {
+  private readonly recordsBySession = new Map<number, ProtocolRecord[]>();
+  private readonly event = new EventEmitter();
+  private readonly sockets: net.Socket[] = [];
+  private closed = false;
+  constructor(records: ProtocolRecord[]) {
+    for (const record of records) {
+      const sessionRecords = this.recordsBySession.get(record.session) ?? [];
+      sessionRecords.push(record);
+      this.recordsBySession.set(record.session, sessionRecords);
+    }
+  }
+  public static load(filePath: string): ProtocolReplayer {
+    return new ProtocolReplayer(loadProtocolRecords(filePath));
+  }
+  public replay(port: number, hostname: string, filePath = ''): AutoHotkeyProcess {
+    // The adapter's server may not be listening yet, so retry the first connection for a while
+    const connectWithRetry = async(retryCount = 50): Promise<net.Socket> => {
+      return new Promise<net.Socket>((resolve, reject) => {
+        const socket = net.connect(port, hostname)
+          .once('connect', () => resolve(socket))
+          .once('error', (error) => {
+            if (retryCount <= 0 || this.closed) {
+              reject(error);
+              return;
+            }
+            setTimeout(() => {
+              connectWithRetry(retryCount - 1).then(resolve, reject);
+            }, 100);
+          });
+      });
+    };
+
+    (async(): Promise<void> => {
+      // Connect in the recorded order so that the first session becomes the main thread again
+      const replayings: Array<Promise<void>> = [];
+      for await (const records of this.recordsBySession.values()) {
+        const socket = await connectWithRetry();
+        this.sockets.push(socket);
+        replayings.push(this.replaySession(socket, records));
+      }
+      await Promise.all(replayings);
+      this.event.emit('close', 0);
+    })().catch((error: unknown) => {
+      this.event.emit('stderr', `Failed to replay the DBGp record. ${error instanceof Error ? error.message : ''}\n`);
+      this.event.emit('close', 1);
+    });
+
+    return {
+      command: `Replay "${filePath}"`,
+      event: this.event,
+      close: (): void => {
+        this.closed = true;
+        this.sockets.forEach((socket) => socket.destroy());
+      },
+    };
+  }
+  private async replaySession(socket: net.Socket, records: ProtocolRecord[]): Promise<void> {
+    return new Promise<void>((resolve) => {
+      const transactionIdMap = new Map<string, string>();
+      let cursor = 0;
+      let insufficientData = '';
+
+      const writeResponses = (): void => {
+        for (; cursor < records.length; cursor++) {
+          const record = records[cursor];
+          if (record.direction === 'send') {
+            return;
+          }
+
+          const xml = record.data.replace(/transaction_id="(?<id>\d+)"/u, (match, id: string) => `transaction_id="${transactionIdMap.get(id) ?? id}"`);
+          const body = Buffer.from(xml);
+          socket.write(Buffer.concat([ Buffer.from(`${body.length}\0`), body, Buffer.from('\0') ]));
+        }
+        socket.end();
+      };
+      const handleCommand = (command: string): void => {
+        const record = records[cursor] as ProtocolRecord | undefined;
+        if (record?.direction !== 'send') {
+          return;
+        }
+
+        const recordedId = record.data.match(/\s-i\s+(?<id>\d+)/u)?.groups?.id;
+        const actualId = command.match(/\s-i\s+(?<id>\d+)/u)?.groups?.id;
+        if (recordedId && actualId) {
+          transactionIdMap.set(recordedId, actualId);
+        }
+
+        const [ recordedName ] = record.data.split(' ');
+        const [ actualName ] = command.split(' ');
+        if (recordedName !== actualName) {
+          this.event.emit('stderr', `[Replay] Expected \`${recordedName}\` but \`${actualName}\` was sent. The result may differ from the recording.\n`);
+        }
+
+        cursor++;
+        writeResponses();
+      };
+
+      socket
+        .on('data', (data: Buffer) => {
+          const commands = `${insufficientData}${data.toString()}`.split('\0');
+          insufficientData = commands.pop() ?? '';
+          commands.forEach(handleCommand);
+        })
+        .on('close', () => resolve())
+        .on('error', () => resolve());
+
+      // Send the init packet and everything else up to the first command
+      writeResponses();
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import { AhkVersion } from '@zero-plusplus/autohotkey-utilities';
+import * as dbgp from '../dbgpSession';
+import { formatProperty } from './VariableManager';
+
+export interface VariableSnapshot {
+  name: string;
+  value: string;
+  type: string;
+  children?: VariableSnapshot[];
+}
+export interface StackFrameSnapshot {
+  name: string;
+  path: string;
+  line: number;
+}
+export interface StopSnapshot {
+  id: number;
+  threadId: number;
+  // e.g. `breakpoint`, `step`
+  reason: string;
+  // e.g. `2023-01-01 00:00:00.000`
+  time: string;
+  stackFrames: StackFrameSnapshot[];
+  categories: Array<{ name: string; variables: VariableSnapshot[] }>;
+  metaVariables: Array<{ name: string; value: string }>;
+}
+export type StopSnapshotSummary = Pick<StopSnapshot, 'id' | 'threadId' | 'reason' | 'time'> & { stackFrame?: StackFrameSnapshot };
+
+// The number of children recorded for each object. The snapshots are kept in memory, so huge objects are cut off
+const maxChildrenCount = 100;
+
+/**
+ * Copy the property to a plain object, so that it is not affected by the subsequent execution.
+ * @param depth The depth of the children to be recorded. The property must have been fetched to the same depth
+ */
+export const createVariableSnapshot = (property: dbgp.Property, ahkVersion: AhkVersion, depth = 1): VariableSnapshot => {
+  const snapshot: VariableSnapshot = { name: property.name, value: formatProperty(property, ahkVersion), type: property.type };
+  if (property instanceof dbgp.ObjectProperty && 0 < depth && 0 < property.children.length) {
+    snapshot.children = property.children
+      .slice(0, maxChildrenCount)
+      .map((child) => createVariableSnapshot(child, ahkVersion, depth - 1));
+  }
+  return snapshot;
+};
+
+/**
+ * Keep the snapshots of the recent stops. The oldest one is discarded when the limit is exceeded.
+ */
+export class StopHistory {
+  public readonly limit: number;
+  private nextId = 1;
+  private readonly snapshots: StopSnapshot[] = [];
+  constructor(limit: number) {
+    this.limit = limit;
+  }
+  public get latest(): StopSnapshot | undefined {
+    return this.snapshots[this.snapshots.length - 1];
+  }
+  public add(snapshot: Omit<StopSnapshot, 'id'>): StopSnapshot {
+    const newSnapshot = { ...snapshot, id: this.nextId++ };
+    this.snapshots.push(newSnapshot);
+    if (this.limit < this.snapshots.length) {
+      this.snapshots.splice(0, this.snapshots.length - this.limit);
+    }
+    return newSnapshot;
+  }
+  public get(id: number): StopSnapshot | undefined {
+    return this.snapshots.find((snapshot) => snapshot.id === id);
+  }
+  // The newest comes first
+  public getSummaries(): StopSnapshotSummary[] {
+    return this.snapshots.slice().reverse().map(({ id, threadId, reason, time, stackFrames }) => ({ id, threadId, reason, time, stackFrame: stackFrames[0] }));
+  }
+  public clear(): void {
+    this.snapshots.splice(0);
+  }
+}
+
+/**
+ * Find the variables whose values differ between the two snapshots, e.g. `Global/point.x`.
+ * Variables that exist in only one of them are also included.
+ */
+export const findChangedVariablePaths = (snapshot: StopSnapshot, other: StopSnapshot): Set<string> => {
+  const flatten = (target: StopSnapshot): Map<string, string> => {
+    const map = new Map<string, string>();
+    const walk = (variables: VariableSnapshot[], parentPath: string): void => {
+      for (const variable of variables) {
+        const variablePath = `${parentPath}/${variable.name}`;
+        map.set(variablePath, variable.value);
+        walk(variable.children ?? [], variablePath);
+      }
+    };
+    target.categories.forEach((category) => walk(category.variables, category.name));
+    return map;
+  };
+
+  const values = flatten(snapshot);
+  const otherValues = flatten(other);
+  const changedPaths = new Set<string>();
+  for (const variablePath of new Set([ ...values.keys(), ...otherValues.keys() ])) {
+    if (values.get(variablePath) !== otherValues.get(variablePath)) {
+      changedPaths.add(variablePath);
+    }
+  }
+  return changedPaths;
+};
+
+/**
+ * Format the snapshot as a read-only text document. The same layout is used for all snapshots, so that the two can be compared in the diff editor.
+ */
+export const formatStopSnapshot = (snapshot: StopSnapshot): string => {
+  const lines: string[] = [
+    `Stop #${snapshot.id} (${snapshot.reason}) at ${snapshot.time}`,
+    '',
+    'Call Stack:',
+    ...snapshot.stackFrames.map((stackFrame) => `  ${stackFrame.name} (${stackFrame.path}:${stackFrame.line})`),
+  ];
+
+  const formatVariables = (variables: VariableSnapshot[], indent: string): string[] => {
+    return variables.flatMap((variable) => [
+      `${indent}${variable.name}: ${variable.value}`,
+      ...formatVariables(variable.children ?? [], `${indent}  `),
+    ]);
+  };
+  for (const category of snapshot.categories) {
+    lines.push('', `${category.name}:`, ...formatVariables(category.variables, '  '));
+  }
+
+  lines.push('', 'Meta Variables:', ...snapshot.metaVariables.map((metaVariable) => `  {${metaVariable.name}}: ${metaVariable.value}`));
+  return `${lines.join('\n')}\n`;
+};
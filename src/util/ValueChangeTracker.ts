@@ -0,0 +1,49 @@
+import * as dbgp from '../dbgpSession';
+
+const createKey = (property: dbgp.Property): string => {
+  const { context } = property;
+  // Local variables with the same name in other functions are different variables
+  const functionName = [ 'Local', 'Static' ].includes(context.name) ? context.stackFrame.name : '';
+  return `${context.name}:${functionName}:${property.fullName}`;
+};
+export const annotateChangedValue = (value: string): string => `${value}  (changed)`;
+
+/**
+ * Remember the primitive values displayed at each stop, so that the ones that differ from the previous stop can be highlighted.
+ * Only the values that have been displayed are remembered. Objects are not compared.
+ * In the Variables view, the values of the changed variables are followed by `(changed)`.
+ */
+export class ValueChangeTracker {
+  private prevValues = new Map<string, string>();
+  private currentValues = new Map<string, string>();
+  /**
+   * Called on each stop. The values displayed in the ended stop become the base of the comparison.
+   * The values that were not displayed in it, e.g. while the node was collapsed, are kept from the earlier stops.
+   */
+  public nextStop(): void {
+    for (const [ key, value ] of this.currentValues) {
+      this.prevValues.set(key, value);
+    }
+    this.currentValues = new Map();
+  }
+  public clear(): void {
+    this.prevValues.clear();
+    this.currentValues.clear();
+  }
+  /**
+   * Record the value of the current stop.
+   * @returns Whether the value differs from the previous stop. Variables seen for the first time are not regarded as changed
+   */
+  public track(property: dbgp.Property): boolean {
+    if (!(property instanceof dbgp.PrimitiveProperty)) {
+      return false;
+    }
+
+    const key = createKey(property);
+    const value = `${property.type}:${property.value}`;
+    this.currentValues.set(key, value);
+
+    const prevValue = this.prevValues.get(key);
+    return prevValue !== undefined && prevValue !== value;
+  }
+}
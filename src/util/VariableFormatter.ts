@@ -0,0 +1,124 @@
+import { DebugProtocol } from 'vscode-debugprotocol';
+import * as dbgp from '../dbgpSession';
+import { VariableFormatterData } from '../extension';
+import { equalsIgnoreCase } from './stringUtils';
+import { escapeAhk, formatProperty } from './VariableManager';
+
+// Same syntax as the variables of log messages, e.g. `{x}`, `{pos.x}`, `{[1]}`. Escaped braces such as `\{` are output as is
+const templateVariableRegExp = /(?<!\\)\{(?<name>[^\r\n}]+)\}/gu;
+// Limits for objects that contain themselves or have an unusually deep inheritance
+const maxNestedFormatDepth = 3;
+const maxClassHierarchyDepth = 20;
+
+/**
+ * Format objects by the `variableFormatters` attribute, e.g. `Point {x: 1, y: 2}` to `(1, 2)`.
+ */
+export class VariableFormatter {
+  private readonly session: dbgp.Session;
+  private readonly formattersData: VariableFormatterData[];
+  // Class names of the class and its base classes, keyed by the class name. Cached since it takes a command for each base class
+  private readonly classHierarchyCache = new Map<string, string[]>();
+  constructor(session: dbgp.Session, formattersData: VariableFormatterData[] = []) {
+    this.session = session;
+    this.formattersData = formattersData;
+  }
+  public async findFormatter(property: dbgp.Property): Promise<VariableFormatterData | undefined> {
+    if (!(property instanceof dbgp.ObjectProperty) || this.formattersData.length === 0) {
+      return undefined;
+    }
+
+    for await (const formatterData of this.formattersData) {
+      if (formatterData.className && equalsIgnoreCase(property.className, formatterData.className)) {
+        return formatterData;
+      }
+      if (formatterData.is) {
+        const classHierarchy = await this.getClassHierarchy(property);
+        if (classHierarchy.some((className) => equalsIgnoreCase(className, formatterData.is!))) {
+          return formatterData;
+        }
+      }
+    }
+    return undefined;
+  }
+  /**
+   * @returns The formatted value. `undefined` if no formatter matches the property
+   */
+  public async format(property: dbgp.Property, format?: DebugProtocol.ValueFormat, depth = 0): Promise<string | undefined> {
+    const formatterData = await this.findFormatter(property);
+    if (!formatterData) {
+      return undefined;
+    }
+
+    let value = '', currentIndex = 0;
+    for await (const match of formatterData.value.matchAll(templateVariableRegExp)) {
+      value += formatterData.value.slice(currentIndex, match.index);
+      currentIndex = match.index! + match[0].length;
+
+      const member = await this.findMember(property as dbgp.ObjectProperty, match.groups!.name.trim());
+      value += member ? await this.formatMember(member, format, depth) : match[0];
+    }
+    value += formatterData.value.slice(currentIndex);
+    return value.replace(/\\([{}])/gu, '$1');
+  }
+  /**
+   * Filter the members shown when the object is expanded, according to the `children` attribute.
+   */
+  public async filterChildren<T extends { name: string }>(property: dbgp.Property, children: T[]): Promise<T[]> {
+    const childNames = (await this.findFormatter(property))?.children;
+    if (!childNames) {
+      return children;
+    }
+    return children.filter((child) => childNames.some((childName) => equalsIgnoreCase(childName, child.name)));
+  }
+  private async formatMember(member: dbgp.Property, format: DebugProtocol.ValueFormat | undefined, depth: number): Promise<string> {
+    if (member instanceof dbgp.PrimitiveProperty) {
+      // Strings are embedded without quotes, as in log messages
+      return member.type === 'string' ? escapeAhk(member.value, this.session.ahkVersion) : formatProperty(member, this.session.ahkVersion, format);
+    }
+
+    const objectMember = member as dbgp.ObjectProperty;
+    if (depth < maxNestedFormatDepth) {
+      const formatted = await this.format(objectMember, format, depth + 1);
+      if (formatted !== undefined) {
+        return formatted;
+      }
+    }
+    return objectMember.className;
+  }
+  private async findMember(property: dbgp.ObjectProperty, name: string): Promise<dbgp.Property | undefined> {
+    const loadedMember = property.children.find((child) => child.name === name || (this.session.ahkVersion.mejor <= 1.1 && equalsIgnoreCase(child.name, name)));
+    if (loadedMember) {
+      return loadedMember;
+    }
+
+    // Members that have not been loaded, e.g. `{pos.x}`
+    const fullName = name.startsWith('[') ? `${property.fullName}${name}` : `${property.fullName}.${name}`;
+    return this.session.safeFetchProperty(property.context, fullName, 1).catch(() => undefined);
+  }
+  /**
+   * Get the class names in the same way as the `is` operator of the conditional breakpoint, i.e. by following `<base>.__Class`.
+   */
+  private async getClassHierarchy(property: dbgp.ObjectProperty): Promise<string[]> {
+    const cacheKey = property.className.toLowerCase();
+    const cached = this.classHierarchyCache.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+
+    const classHierarchy = [ property.className ];
+    let baseName = `${property.fullName}.<base>`;
+    for (let i = 0; i < maxClassHierarchyDepth; i++) {
+      // eslint-disable-next-line no-await-in-loop
+      const classNameProperty = await this.session.safeFetchProperty(property.context, `${baseName}.__Class`, 0).catch(() => undefined);
+      if (!(classNameProperty instanceof dbgp.PrimitiveProperty)) {
+        break;
+      }
+      if (!classHierarchy.some((className) => equalsIgnoreCase(className, classNameProperty.value))) {
+        classHierarchy.push(classNameProperty.value);
+      }
+      baseName += '.<base>';
+    }
+    this.classHierarchyCache.set(cacheKey, classHierarchy);
+    return classHierarchy;
+  }
+}
@@ -9,6 +9,7 @@ import { isNumberLike, isPrimitive, toArray } from './util';
 import { equalsIgnoreCase } from './stringUtils';
 import { CategoryData, MatcherData, ScopeSelector } from '../extension';
 import { CaseInsensitiveMap } from './CaseInsensitiveMap';
+import { CancellationToken, raceCancellation, throwIfCancelled } from './CancellationToken';
 import { AhkDebugSession } from '../ahkDebug';
 
 export const escapeAhk = (str: string, ahkVersion?: AhkVersion): string => {
@@ -35,14 +36,31 @@ export const unescapeAhk = (str: string, ahkVersion?: AhkVersion): string => {
     .replace(/`v/gu, '\v')
     .replace(/`f/gu, '\f');
 };
-export const formatProperty = (property: dbgp.Property, ahkVersion?: AhkVersion): string => {
+// Appended after the closing quote of a string cut off by `max_data`. The full value can be fetched with the `fullValue` custom request
+export const truncatedMarker = '…';
+/**
+ * Format the integer as a string. If `format.hex` is specified, it is formatted in hexadecimal, e.g. `0xff`, `-0x1`.
+ * @param value The integer returned by the engine. It is a string because it may exceed the safe range of number
+ */
+export const formatInteger = (value: string, format?: DebugProtocol.ValueFormat): string => {
+  if (!format?.hex || !(/^-?\d+$/u).test(value)) {
+    return value;
+  }
+  const integer = BigInt(value);
+  return integer < 0 ? `-0x${(-integer).toString(16)}` : `0x${integer.toString(16)}`;
+};
+export const formatProperty = (property: dbgp.Property, ahkVersion?: AhkVersion, format?: DebugProtocol.ValueFormat): string => {
   const formatPrimitiveProperty = (property: dbgp.PrimitiveProperty): string => {
     if (property.type === 'string') {
-      return `"${escapeAhk(property.value, ahkVersion)}"`;
+      const value = `"${escapeAhk(property.value, ahkVersion)}"`;
+      return property.isTruncated ? `${value}${truncatedMarker}` : value;
     }
     else if (property.type === 'undefined') {
       return 'Not initialized';
     }
+    else if (property.type === 'integer') {
+      return formatInteger(property.value, format);
+    }
     return property.value;
   };
 
@@ -79,7 +97,7 @@ export const formatProperty = (property: dbgp.Property, ahkVersion?: AhkVersion)
     value += `${key}: ${displayValue}, `;
   }
 
-  if (children.length === 100) {
+  if (children.length === 100 || objectProperty.children.length < objectProperty.numberOfChildren) {
     value += '…';
   }
 
@@ -152,12 +170,12 @@ export class Scope implements DebugAdapter.Scope {
     this.children = await this.createChildren(maxDepth);
     return this.children;
   }
-  public async createChildren(maxDepth?: number): Promise<Variable[]> {
+  public async createChildren(maxDepth?: number, token?: CancellationToken): Promise<Variable[]> {
     if (!maxDepth && this.children) {
       return this.children;
     }
 
-    const { properties } = await this.session.sendContextGetCommand(this.context, maxDepth);
+    const { properties } = await raceCancellation(this.session.sendContextGetCommand(this.context, maxDepth), token);
     return properties.map((property) => {
       return new Variable(this.session, property);
     });
@@ -196,7 +214,7 @@ export class Category implements Scope {
     this.children = await this.createChildren(maxDepth);
     return this.children;
   }
-  public async createChildren(maxDepth?: number): Promise<Variable[]> {
+  public async createChildren(maxDepth?: number, token?: CancellationToken): Promise<Variable[]> {
     if (!maxDepth && this.children) {
       return this.children;
     }
@@ -208,7 +226,7 @@ export class Category implements Scope {
 
     const sourceVariables: Variable[] = [];
     for await (const scope of sourceScopes) {
-      sourceVariables.push(...await scope.createChildren(maxDepth));
+      sourceVariables.push(...await scope.createChildren(maxDepth, token));
     }
 
     const matchers = this.categoryData.matchers;
@@ -338,6 +356,10 @@ export class VariableGroup extends Array<Scope | Category | Categories | Variabl
     this.push(...variables);
   }
 }
+export interface ChildrenRange {
+  start: number;
+  count: number;
+}
 export class Variable implements DebugProtocol.Variable {
   public readonly hasChildren: boolean;
   public _isLoadedChildren: boolean;
@@ -347,7 +369,7 @@ export class Variable implements DebugProtocol.Variable {
   public readonly session: dbgp.Session;
   public readonly name: string;
   public get value(): string {
-    return formatProperty(this.property, this.session.ahkVersion);
+    return this.formatValue();
   }
   public readonly variablesReference: number;
   public readonly __vscodeVariableMenuContext: 'string' | 'number' | 'object';
@@ -359,7 +381,32 @@ export class Variable implements DebugProtocol.Variable {
     return undefined;
   }
   public get namedVariables(): number | undefined {
-    return this.property instanceof dbgp.ObjectProperty ? 1 : undefined;
+    if (this.range) {
+      return this.range.count;
+    }
+    if (!(this.property instanceof dbgp.ObjectProperty)) {
+      return undefined;
+    }
+    if (this.hasChunks) {
+      return Math.ceil(this.property.numberOfChildren / this.chunkSize);
+    }
+    // Even if all the children seem to be indexed, e.g. a large array, at least one is reported so that VS Code requests the named children such as `<base>`
+    return Math.max(1, this.property.numberOfChildren - (this.indexedVariables ?? 0));
+  }
+  // The part of the children of the property shown by this chunk node. Undefined if this is not a chunk node
+  public readonly range?: ChildrenRange;
+  // The number of named children in each chunk node, e.g. `[0..9999]`. It is the page size of the engine, i.e. `max_children`, so that each chunk is fetched by a single `property_get -p`
+  public get chunkSize(): number {
+    return this.property instanceof dbgp.ObjectProperty && 0 < this.property.pageSize ? this.property.pageSize : Infinity;
+  }
+  // If true, the named children are grouped by chunk nodes instead of being fetched at once
+  public get hasChunks(): boolean {
+    if (this.range || !(this.property instanceof dbgp.ObjectProperty) || this.property.numberOfChildren <= this.chunkSize) {
+      return false;
+    }
+    // Arrays are paged by VS Code through `indexedVariables`. If the children have not been loaded, it can only be determined by the class name
+    const isArray = this.isLoadedChildren ? this.property.isArray : this.property.className === 'Array';
+    return !isArray;
   }
   public get isArray(): boolean {
     return this.property instanceof dbgp.ObjectProperty ? this.property.isArray : false;
@@ -383,13 +430,17 @@ export class Variable implements DebugProtocol.Variable {
   public get children(): dbgp.Property[] | undefined {
     return this.property instanceof dbgp.ObjectProperty ? this.property.children : undefined;
   }
-  constructor(session: dbgp.Session, property: dbgp.Property) {
+  /**
+   * @param range If specified, this is a chunk node that shows the part of the children of the property
+   */
+  constructor(session: dbgp.Session, property: dbgp.Property, range?: ChildrenRange) {
     this.hasChildren = property instanceof dbgp.ObjectProperty;
     this._isLoadedChildren = property instanceof dbgp.ObjectProperty && 0 < property.children.length;
 
     this.session = session;
     this._property = property;
-    this.name = property.name;
+    this.range = range;
+    this.name = range ? `[${range.start}..${range.start + range.count - 1}]` : property.name;
     this.variablesReference = this.hasChildren ? handles.create(this) : 0;
     this.type = property.type;
     if (property instanceof dbgp.PrimitiveProperty) {
@@ -408,18 +459,41 @@ export class Variable implements DebugProtocol.Variable {
       }
     }
   }
-  public async createMembers(args: DebugProtocol.VariablesArguments): Promise<Variable[] | undefined> {
+  public formatValue(format?: DebugProtocol.ValueFormat): string {
+    if (this.range) {
+      return '';
+    }
+    return formatProperty(this.property, this.session.ahkVersion, format);
+  }
+  public async createMembers(args: DebugProtocol.VariablesArguments, token?: CancellationToken): Promise<Variable[] | undefined> {
     if (!(this.property instanceof dbgp.ObjectProperty)) {
       return undefined;
     }
 
-    await this.loadChildren();
-    if (!this.children) {
+    if (this.hasChunks) {
+      const { numberOfChildren } = this.property;
+      const { chunkSize } = this;
+      const chunks: Variable[] = [];
+      for (let start = 0; start < numberOfChildren; start += chunkSize) {
+        chunks.push(new Variable(this.session, this.property, { start, count: Math.min(chunkSize, numberOfChildren - start) }));
+      }
+      return chunks;
+    }
+
+    let children: dbgp.Property[] | undefined;
+    if (this.range) {
+      children = await raceCancellation(this.session.fetchPropertyChildren(this.property, this.range.start, this.range.count), token);
+    }
+    else {
+      await raceCancellation(this.loadChildren(), token);
+      children = this.children;
+    }
+    if (!children) {
       return undefined;
     }
 
     const variables: Variable[] = [];
-    for await (const property of this.children) {
+    for await (const property of children) {
       // Fix: [#133](https://github.com/zero-plusplus/vscode-autohotkey-debug/issues/133)
       if (property.fullName.includes('<enum>')) {
         continue;
@@ -443,9 +517,11 @@ export class Variable implements DebugProtocol.Variable {
         }
       }
 
+      // Each child requires a command, so stop as soon as the node is collapsed
+      throwIfCancelled(token);
       const variable = new Variable(this.session, property);
       if (!isComObject(this.property)) {
-        await variable.loadChildren();
+        await raceCancellation(variable.loadChildren(), token);
       }
       variables.push(variable);
     }
@@ -543,9 +619,9 @@ export class VariableManager {
   // private readonly scopeByVariablesReference = new Map<number, Scope>();
   // private readonly objectByVariablesReference = new Map<number, dbgp.ObjectProperty>();
   // private readonly stackFramesByFrameId = new Map<number, dbgp.StackFrame>();
-  constructor(debugAdapter: AhkDebugSession, categories?: CategoryData[]) {
+  constructor(debugAdapter: AhkDebugSession, session: dbgp.Session, categories?: CategoryData[]) {
     this.debugAdapter = debugAdapter;
-    this.session = debugAdapter.session!;
+    this.session = session;
     this.categoriesData = categories;
   }
   public createVariableReference(value?: any): number {
@@ -609,13 +685,13 @@ export class VariableManager {
     }
     return undefined;
   }
-  public async createVariables(args: DebugProtocol.VariablesArguments, maxDepth?: number): Promise<Variable[] | undefined> {
+  public async createVariables(args: DebugProtocol.VariablesArguments, maxDepth?: number, token?: CancellationToken): Promise<Variable[] | undefined> {
     const variable = this.getObjectVariable(args.variablesReference);
     if (variable) {
-      return variable.createMembers(args);
+      return variable.createMembers(args, token);
     }
     const scope = this.getCategory(args.variablesReference);
-    return scope?.createChildren(maxDepth);
+    return scope?.createChildren(maxDepth, token);
   }
   public async createStackFrames(): Promise<StackFrames> {
     const { stackFrames: dbgpStackFrames } = await this.session.sendStackGetCommand();
@@ -0,0 +1,61 @@
+import { AhkVersion } from '@zero-plusplus/autohotkey-utilities';
+import { findFunctionDefinitions, removeStringsAndComment } from './findFunctionDefinitions';
+
+// Lines starting with these are joined to the previous line by the engine, e.g. `. "text"`, `, param`, `&& b`
+const continuationLineRegExp = /^\s*(?:,|\.(?!\d)|&&|\|\||\?|:(?!=)|(?:and|or)\s)/ui;
+
+/**
+ * Find the lines on which the engine can stop. Breakpoints set on the other lines, e.g. comments, blank lines, braces and directives, are moved by the engine to the next executable line.
+ * Like findFunctionDefinitions, this is a line-based scan, not a full parser.
+ * @param startLine 1-base line of the range to be searched
+ * @param endLine 1-base line of the range to be searched. Included in the range
+ */
+export const findBreakpointLocations = (ahkVersion: AhkVersion, source: string, startLine = 1, endLine = Number.MAX_SAFE_INTEGER): number[] => {
+  const definitionLines = new Set(findFunctionDefinitions(ahkVersion, source).map((definition) => definition.line));
+
+  const locations: number[] = [];
+  const lines = source.split(/\r\n|\n/u);
+  let inBlockComment = false;
+  let inContinuationSection = false;
+  for (const [ i, rawText ] of lines.entries()) {
+    const line = i + 1;
+    if (endLine < line) {
+      break;
+    }
+
+    if (inBlockComment) {
+      if ((/^\s*\*\//u).test(rawText) || (2 <= ahkVersion.mejor && rawText.includes('*/'))) {
+        inBlockComment = false;
+      }
+      continue;
+    }
+    if ((/^\s*\/\*/u).test(rawText)) {
+      inBlockComment = !rawText.includes('*/');
+      continue;
+    }
+    if (inContinuationSection) {
+      if ((/^\s*\)/u).test(rawText)) {
+        inContinuationSection = false;
+      }
+      continue;
+    }
+    // The options of the continuation section, e.g. `(Join`, do not contain the close paren
+    if ((/^\s*\((?!.*\))/u).test(rawText)) {
+      inContinuationSection = true;
+      continue;
+    }
+
+    const text = removeStringsAndComment(rawText, ahkVersion).trim();
+    if (line < startLine || text === '') {
+      continue;
+    }
+    if ((/^[{}\s]+$/u).test(text) || text.startsWith('#') || continuationLineRegExp.test(text)) {
+      continue;
+    }
+    if (definitionLines.has(line) || (/^class\s/ui).test(text)) {
+      continue;
+    }
+    locations.push(line);
+  }
+  return locations;
+};
@@ -0,0 +1,124 @@
+import { AhkVersion } from '@zero-plusplus/autohotkey-utilities';
+
+export type FunctionDefinitionKind = 'function' | 'method' | 'label';
+export interface FunctionDefinition {
+  kind: FunctionDefinitionKind;
+  // e.g. `Foo`, `MyClass.Save`, `Outer.Inner.__New`
+  fullName: string;
+  name: string;
+  // 1-base line of the definition. Since the definition line itself has no executable code, the engine moves breakpoints set here to the first line of the body
+  line: number;
+}
+
+export const keywords = [ 'if', 'while', 'for', 'loop', 'switch', 'catch', 'return', 'until', 'else', 'try', 'finally', 'throw', 'not', 'and', 'or' ];
+// Strings are blanked out rather than removed so that the columns of the remaining code are kept
+export const removeStringsAndComment = (text: string, ahkVersion: AhkVersion): string => {
+  const stringRegExp = 2 <= ahkVersion.mejor ? /"(?:`.|[^"`])*"|'(?:`.|[^'`])*'/gu : /"(?:""|[^"])*"/gu;
+  return text
+    .replace(stringRegExp, (str) => `"${' '.repeat(str.length - 2)}"`)
+    .replace(/(^|\s);.*$/u, '$1');
+};
+const countBraces = (text: string): number => {
+  let count = 0;
+  for (const char of text) {
+    if (char === '{') {
+      count++;
+    }
+    else if (char === '}') {
+      count--;
+    }
+  }
+  return count;
+};
+
+/**
+ * Find function, method and label definitions in the script source.
+ * This is a line-based scan, not a full parser, so definitions written in unusual styles may not be found.
+ */
+export const findFunctionDefinitions = (ahkVersion: AhkVersion, source: string): FunctionDefinition[] => {
+  const definitions: FunctionDefinition[] = [];
+  const lines = source.split(/\r\n|\n/u);
+
+  // Each element is the class name and the brace depth of its body
+  const classStack: Array<{ name: string; depth: number }> = [];
+  let depth = 0;
+  let pendingClassName: string | undefined;
+  let pendingFunction: { name: string; line: number } | undefined;
+  let inBlockComment = false;
+  for (const [ i, rawText ] of lines.entries()) {
+    const line = i + 1;
+    if (inBlockComment) {
+      if ((/^\s*\*\//u).test(rawText) || (2 <= ahkVersion.mejor && rawText.includes('*/'))) {
+        inBlockComment = false;
+      }
+      continue;
+    }
+    if ((/^\s*\/\*/u).test(rawText)) {
+      inBlockComment = !rawText.includes('*/');
+      continue;
+    }
+
+    const text = removeStringsAndComment(rawText, ahkVersion);
+    if (text.trim() === '') {
+      continue;
+    }
+
+    const currentClass = classStack[classStack.length - 1] as { name: string; depth: number } | undefined;
+    const createFullName = (name: string): string => (currentClass ? `${classStack.map((cls) => cls.name).join('.')}.${name}` : name);
+
+    // A function whose open brace is on the next line, e.g. `Foo()\n{`
+    if (pendingFunction) {
+      if ((/^\s*\{/u).test(text)) {
+        const { name, line: definitionLine } = pendingFunction;
+        definitions.push({ kind: currentClass ? 'method' : 'function', fullName: createFullName(name), name, line: definitionLine });
+      }
+      pendingFunction = undefined;
+    }
+
+    const classMatch = text.match(/^\s*class\s+(?<name>[\w$#@]+)(?:\s+extends\s+[\w$#@.]+)?\s*(?<brace>\{)?\s*$/ui);
+    if (classMatch?.groups) {
+      if (classMatch.groups.brace) {
+        classStack.push({ name: classMatch.groups.name, depth: depth + 1 });
+      }
+      else {
+        pendingClassName = classMatch.groups.name;
+      }
+      depth += countBraces(text);
+      continue;
+    }
+    if (pendingClassName) {
+      if ((/^\s*\{/u).test(text)) {
+        classStack.push({ name: pendingClassName, depth: depth + 1 });
+      }
+      pendingClassName = undefined;
+    }
+
+    const isClassBody = currentClass ? currentClass.depth === depth : depth === 0;
+    const functionMatch = text.match(/^\s*(?:static\s+)?(?<name>[\w$#@]+)\((?<params>(?:[^()]|\([^()]*\))*)\)\s*(?<body>\{|=>)?/ui);
+    if (functionMatch?.groups && !keywords.includes(functionMatch.groups.name.toLowerCase()) && (isClassBody || !currentClass)) {
+      const { name, body } = functionMatch.groups;
+      const isDefinition = Boolean(body) || text.trim().endsWith(')');
+      if (isDefinition && (currentClass || depth === 0 || body)) {
+        if (body) {
+          definitions.push({ kind: currentClass ? 'method' : 'function', fullName: createFullName(name), name, line });
+        }
+        else {
+          pendingFunction = { name, line };
+        }
+      }
+    }
+    else if (!currentClass) {
+      const labelMatch = text.match(/^\s*(?<name>[^\s,:`(){}]+):\s*$/u);
+      if (labelMatch?.groups && labelMatch.groups.name.toLowerCase() !== 'default') {
+        const { name } = labelMatch.groups;
+        definitions.push({ kind: 'label', fullName: name, name, line });
+      }
+    }
+
+    depth = Math.max(0, depth + countBraces(text));
+    while (0 < classStack.length && depth < classStack[classStack.length - 1].depth) {
+      classStack.pop();
+    }
+  }
+  return definitions;
+};
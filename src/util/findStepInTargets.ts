@@ -0,0 +1,61 @@
+import { AhkVersion } from '@zero-plusplus/autohotkey-utilities';
+import { keywords, removeStringsAndComment } from './findFunctionDefinitions';
+
+export interface StepInTargetCandidate {
+  // e.g. `Trim`, `obj.Save`
+  fullName: string;
+  // The name that appears in the stack frame of the called function, e.g. `Save` of `MyClass.Save()`
+  name: string;
+  // 1-base columns of the call, from the start of the name to the closing parenthesis
+  column: number;
+  endColumn: number;
+}
+
+const findClosingParenthesis = (text: string, openIndex: number): number => {
+  let depth = 0;
+  for (let i = openIndex; i < text.length; i++) {
+    if (text[i] === '(') {
+      depth++;
+    }
+    else if (text[i] === ')') {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+  }
+  return text.length - 1;
+};
+
+/**
+ * Find the function calls written on a line of the script, in the order in which they appear.
+ * Calls with the same name are listed only once, since they cannot be distinguished by the stack frame.
+ */
+export const findStepInTargets = (ahkVersion: AhkVersion, lineText: string): StepInTargetCandidate[] => {
+  const text = removeStringsAndComment(lineText, ahkVersion);
+
+  const candidates: StepInTargetCandidate[] = [];
+  for (const match of text.matchAll(/(?<![\w$#@%])(?<fullName>[\w$#@]+(?:\.[\w$#@]+)*)\(/gu)) {
+    if (!match.groups || match.index === undefined) {
+      continue;
+    }
+
+    const { fullName } = match.groups;
+    const name = fullName.split('.').pop()!;
+    if (keywords.includes(fullName.toLowerCase())) {
+      continue;
+    }
+    if (candidates.some((candidate) => candidate.name.toLowerCase() === name.toLowerCase())) {
+      continue;
+    }
+
+    const openIndex = match.index + fullName.length;
+    candidates.push({
+      fullName,
+      name,
+      column: match.index + 1,
+      endColumn: findClosingParenthesis(text, openIndex) + 2,
+    });
+  }
+  return candidates;
+};
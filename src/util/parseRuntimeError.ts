@@ -0,0 +1,112 @@
+export interface RuntimeErrorStackFrame {
+  file: string;
+  line: number;
+  // The name of the function shown in brackets in the call stack of v2. Empty for the auto-execute section
+  name?: string;
+  code?: string;
+}
+export interface RuntimeError {
+  // e.g. `Error`, `TypeError`. v1 and /ErrorStdOut do not report the class, so it is always `Error`
+  className: string;
+  file: string;
+  line: number;
+  message: string;
+  specifics?: string;
+  // The innermost frame comes first. v1 has no call stack, so only the frame of the error line is included
+  stack: RuntimeErrorStackFrame[];
+}
+
+const stackFrameRegExp = /^\s*(?<file>.+?) \((?<line>\d+)\) : \[(?<name>[^\]]*)\] ?(?<code>.*)$/u;
+const parseStack = (text: string): RuntimeErrorStackFrame[] => {
+  const callStackIndex = text.search(/^\s*Call stack:\s*$/mu);
+  if (callStackIndex === -1) {
+    return [];
+  }
+
+  const stack: RuntimeErrorStackFrame[] = [];
+  for (const lineText of text.slice(callStackIndex).split(/\r\n|\n/u).slice(1)) {
+    const match = lineText.match(stackFrameRegExp);
+    if (!match?.groups) {
+      continue;
+    }
+
+    const { file, line, name, code } = match.groups;
+    stack.push({ file, line: parseInt(line, 10), name, code: code.trim() });
+  }
+  return stack;
+};
+const parseSpecifics = (text: string): string | undefined => {
+  return text.match(/^\s*Specifically: (?<specifics>.+)$/mu)?.groups?.specifics.trim();
+};
+
+/**
+ * Parse the text of a runtime error or load-time error. The following formats are supported.
+ *
+ * 1. Output of `/ErrorStdOut`, e.g. `C:\script.ahk (3) : ==> Call to nonexistent function.`
+ * 2. The error dialog of v1, e.g. `Error:  Call to nonexistent function.` followed by `--->\t003: Foo()`
+ * 3. The error dialog of v2, e.g. `Error: This value of type "String" has no method named "Foo".` followed by `▶\t003: x.Foo()` and `Call stack:`
+ * @param text The error text
+ * @param defaultFile The file used when the text does not contain the file path, i.e. the error dialog of the main script
+ */
+export const parseRuntimeError = (text: string, defaultFile: string): RuntimeError | undefined => {
+  const stack = parseStack(text);
+  const specifics = parseSpecifics(text);
+
+  const stdoutMatch = text.match(/^(?<file>.+?) \((?<line>\d+)\) : ==> (?<message>.+)$/mu);
+  if (stdoutMatch?.groups) {
+    const { file, line, message } = stdoutMatch.groups;
+    const _line = parseInt(line, 10);
+    return {
+      className: 'Error',
+      file,
+      line: _line,
+      message: message.trim(),
+      specifics,
+      stack: 0 < stack.length ? stack : [ { file, line: _line } ],
+    };
+  }
+
+  // The line marked by an arrow. `--->` is v1 and `▶` is v2
+  const lineMatch = text.match(/^(?:--->|▶)\t(?<line>\d+): ?(?<code>.*)$/mu);
+  if (!lineMatch?.groups) {
+    return undefined;
+  }
+  const line = parseInt(lineMatch.groups.line, 10);
+  const code = lineMatch.groups.code.trim();
+
+  const includeMatch = text.match(/^Error in #include file "(?<file>.+)":\r?\n\s*(?<message>.+)$/mu);
+  if (includeMatch?.groups) {
+    const { file, message } = includeMatch.groups;
+    return { className: 'Error', file, line, message: message.trim(), specifics, stack: [ { file, line, code } ] };
+  }
+
+  const messageMatch = text.match(/^(?<className>\w*Error):\s+(?<message>.+)$/mu);
+  if (!messageMatch?.groups) {
+    return undefined;
+  }
+  const { className, message } = messageMatch.groups;
+  const file = 0 < stack.length ? stack[0].file : defaultFile;
+  return {
+    className,
+    file,
+    line,
+    message: message.trim(),
+    specifics,
+    stack: 0 < stack.length ? stack : [ { file, line, code } ],
+  };
+};
+
+/**
+ * Format the error in the `/ErrorStdOut` style, with the paths in the `file:line` format so that they can be clicked in the debug console.
+ */
+export const formatRuntimeError = (error: RuntimeError): string => {
+  const lines = [ `${error.file}:${error.line} : ==> ${error.message}` ];
+  if (error.specifics) {
+    lines.push(`     Specifically: ${error.specifics}`);
+  }
+  if (error.stack.some((frame) => frame.name !== undefined)) {
+    lines.push('', 'Call stack:');
+    lines.push(...error.stack.map((frame) => `${frame.file}:${frame.line} : [${frame.name ?? ''}] ${frame.code ?? ''}`.trimEnd()));
+  }
+  return `${lines.join('\n')}\n`;
+};
@@ -1,15 +1,30 @@
 import * as assert from 'assert';
+import * as path from 'path';
 import * as dbgp from '../src/dbgpSession';
 import * as net from 'net';
+import { URI } from 'vscode-uri';
+import * as os from 'os';
+import { unlinkSync } from 'fs';
+import { MockDbgpEngine } from './mock/MockDbgpEngine';
+import { BreakpointManager } from '../src/util/BreakpointManager';
+import { DataBreakpointManager } from '../src/util/DataBreakpointManager';
+import { ValueChangeTracker } from '../src/util/ValueChangeTracker';
+import { VariableFormatter } from '../src/util/VariableFormatter';
+import { ConditionalEvaluator } from '../src/util/ConditionEvaluator';
+import { ExpressionEvaluator, formatExpressionValue } from '../src/util/ExpressionEvaluator';
+import { MetaVariableValueMap, Variable } from '../src/util/VariableManager';
+import { AutoHotkeyProcess } from '../src/util/AutoHotkeyLuncher';
+import { ProtocolRecorder, ProtocolReplayer, loadProtocolRecords } from '../src/util/ProtocolRecorder';
 
 suite('Debug session test', () => {
   setup(function(done) {
-    this.serverSocket = net.connect(9000, 'localhost');
-    this.session = new dbgp.Session(this.serverSocket);
     this.server = net.createServer((socket) => {
       this.socket = socket;
       done();
-    }).listen(9000, 'localhost');
+    }).listen(9000, 'localhost', () => {
+      this.serverSocket = net.connect(9000, 'localhost');
+      this.session = new dbgp.Session(this.serverSocket);
+    });
   });
 
   test('handlePacket', function(done) {
@@ -50,3 +65,452 @@ suite('Debug session test', () => {
     this.server.close();
   });
 });
+
+suite('Packet decoder test', () => {
+  const createPacket = (xml: string): Buffer => Buffer.from(`${Buffer.byteLength(xml)}\0${xml}\0`);
+
+  test('chunked message', function() {
+    const xml = '<response command="status" transaction_id="1" status="break" reason="ok" text="あいう"/>';
+    const packet = createPacket(xml);
+
+    const decoder = new dbgp.PacketDecoder();
+    const messages: Buffer[] = [];
+    for (let i = 0; i < packet.length; i++) {
+      messages.push(...decoder.decode(packet.slice(i, i + 1)));
+    }
+    assert.deepStrictEqual(messages.map(String), [ xml ]);
+  });
+  test('many queued messages', function() {
+    const xmls = Array.from({ length: 50000 }, (_, i) => `<response command="status" transaction_id="${i}"/>`);
+    const packet = Buffer.concat(xmls.map(createPacket));
+
+    const decoder = new dbgp.PacketDecoder();
+    const messages = [ ...decoder.decode(packet.slice(0, 100)), ...decoder.decode(packet.slice(100)) ];
+    assert.strictEqual(messages.length, xmls.length);
+    assert.strictEqual(String(messages[messages.length - 1]), xmls[xmls.length - 1]);
+  });
+  test('large message', function() {
+    const xml = `<response command="context_get" transaction_id="1">${'<property name="a" type="string"/>'.repeat(100000)}</response>`;
+    const packet = createPacket(xml);
+
+    const decoder = new dbgp.PacketDecoder();
+    const messages: Buffer[] = [];
+    for (let i = 0; i < packet.length; i += 1024) {
+      messages.push(...decoder.decode(packet.slice(i, i + 1024)));
+    }
+    assert.strictEqual(messages.length, 1);
+    assert.strictEqual(String(messages[0]), xml);
+  });
+});
+
+const connectMockEngine = async(scenarioName: string, recorder?: ProtocolRecorder): Promise<{ engine: MockDbgpEngine; session: dbgp.Session }> => {
+  const engine = MockDbgpEngine.load(path.resolve(__dirname, 'mock', 'scenarios', scenarioName));
+  return new Promise((resolve) => {
+    const server = net.createServer((socket) => {
+      server.close();
+      const session = new dbgp.Session(socket, undefined, recorder);
+      session.on('init', () => resolve({ engine, session }));
+    }).listen(0, '127.0.0.1', () => {
+      engine.connect((server.address() as net.AddressInfo).port);
+    });
+  });
+};
+suite('Mock engine test', () => {
+  const programUri = URI.file('/project/demo.ahk2').toString();
+  setup(async function() {
+    const { engine, session } = await connectMockEngine('v2-function-call.json');
+    this.engine = engine;
+    this.session = session;
+  });
+
+  test('init', function() {
+    const session = this.session as dbgp.Session;
+    assert.strictEqual(session.ahkVersion.mejor, 2.0);
+  });
+  test('step and inspect variables', async function() {
+    const session = this.session as dbgp.Session;
+
+    await session.sendStepIntoCommand();
+    await session.sendStepIntoCommand();
+    await session.sendStepIntoCommand();
+    const { stackFrames: [ stackFrame ] } = await session.sendStackGetCommand();
+    assert.strictEqual(stackFrame.fileUri, programUri);
+    assert.strictEqual(stackFrame.line, 6);
+
+    const { contexts } = await session.sendContextNamesCommand(stackFrame);
+    const globalContext = contexts.find((context) => context.name === 'Global')!;
+    const { properties } = await session.sendContextGetCommand(globalContext);
+    assert.deepStrictEqual(properties.map((property) => property.name), [ 'greeting', 'point', 'result', 'A_DebuggerName' ]);
+
+    const point = (await session.sendPropertyGetCommand(globalContext, 'point')).properties[0] as dbgp.ObjectProperty;
+    assert.strictEqual(point.className, 'Object');
+    assert.deepStrictEqual(point.children.map((child) => [ child.fullName, (child as dbgp.PrimitiveProperty).value ]), [ [ 'point.x', '10' ], [ 'point.y', '20' ] ]);
+
+    await session.sendStepIntoCommand();
+    const { stackFrames } = await session.sendStackGetCommand();
+    assert.deepStrictEqual(stackFrames.map((stackFrame) => [ stackFrame.name, stackFrame.line ]), [ [ 'Add()', 9 ], [ '', 6 ] ]);
+
+    const localContext = (await session.sendContextNamesCommand(stackFrames[0])).contexts.find((context) => context.name === 'Local')!;
+    const a = (await session.sendPropertyGetCommand(localContext, 'a')).properties[0] as dbgp.PrimitiveProperty;
+    assert.strictEqual(a.type, 'integer');
+    assert.strictEqual(a.value, '1');
+
+    await session.sendPropertySetCommand({ context: localContext, fullName: 'a', typeName: 'integer', data: '5' });
+    const newA = (await session.sendPropertyGetCommand(localContext, 'a')).properties[0] as dbgp.PrimitiveProperty;
+    assert.strictEqual(newA.value, '5');
+  });
+  test('breakpoint', async function() {
+    const session = this.session as dbgp.Session;
+
+    // Line 5 is a comment, so the breakpoint is moved to the next line
+    const { id } = await session.sendBreakpointSetCommand(programUri, 5);
+    const { breakpoint } = await session.sendBreakpointGetCommand(id);
+    assert.strictEqual(breakpoint.line, 6);
+
+    const response = await session.sendRunCommand();
+    assert.strictEqual(response.status, 'break');
+    assert.strictEqual(response.stopReason, 'breakpoint');
+    const { stackFrames: [ stackFrame ] } = await session.sendStackGetCommand();
+    assert.strictEqual(stackFrame.line, 6);
+
+    await session.sendBreakpointRemoveCommand(id);
+    assert.strictEqual((await session.sendBreakpointListCommand()).breakpoints.length, 0);
+  });
+  test('step over and output', async function() {
+    const session = this.session as dbgp.Session;
+
+    const outputs: string[] = [];
+    session.on('stdout', (output: string) => outputs.push(output));
+
+    await session.sendBreakpointSetCommand(programUri, 9);
+    await session.sendRunCommand();
+    await session.sendStepOverCommand();
+    const { stackFrames } = await session.sendStackGetCommand();
+    assert.deepStrictEqual(stackFrames.map((stackFrame) => stackFrame.line), [ 10, 6 ]);
+
+    await session.sendStepOutCommand();
+    assert.deepStrictEqual(outputs, [ 'done' ]);
+
+    const response = await session.sendRunCommand();
+    assert.strictEqual(response.status, 'stopped');
+  });
+  test('temporary breakpoint', async function() {
+    const session = this.session as dbgp.Session;
+    const breakpointManager = new BreakpointManager(session);
+
+    const temporary = await breakpointManager.setTemporaryBreakpoint(programUri, 10);
+    assert.ok(temporary.temporary);
+    await session.sendRunCommand();
+    const { stackFrames: [ stackFrame ] } = await session.sendStackGetCommand();
+    assert.strictEqual(stackFrame.line, 10);
+    assert.strictEqual((await session.sendBreakpointListCommand()).breakpoints.length, 0);
+  });
+  test('temporary breakpoint on the line of a registered breakpoint', async function() {
+    const session = this.session as dbgp.Session;
+    const breakpointManager = new BreakpointManager(session);
+    const registered = await breakpointManager.registerBreakpoint(programUri, 6, { hitCount: 0 });
+
+    // Line 5 is a comment, so it is moved to the registered breakpoint on line 6
+    const breakpoint = await breakpointManager.setTemporaryBreakpoint(programUri, 5);
+    assert.strictEqual(breakpoint.id, registered.id);
+    assert.ok(!breakpoint.temporary);
+
+    await session.sendRunCommand();
+    const { breakpoints } = await session.sendBreakpointListCommand();
+    assert.deepStrictEqual(breakpoints.map(({ id, temporary }) => [ id, temporary ]), [ [ registered.id, false ] ]);
+  });
+  test('data breakpoint', async function() {
+    const session = this.session as dbgp.Session;
+    const dataBreakpointManager = new DataBreakpointManager(session);
+    const findChanges = async(): Promise<string[]> => {
+      await session.sendStepIntoCommand();
+      return (await dataBreakpointManager.findChanges()).map(({ breakpoint, oldValue, newValue }) => `${breakpoint.fullName}: ${oldValue} → ${newValue}`);
+    };
+
+    await session.sendStepIntoCommand();
+    await dataBreakpointManager.setBreakpoints([
+      { contextName: 'Global', functionName: '', fullName: 'greeting' },
+      { contextName: 'Global', functionName: '', fullName: 'point' },
+      { contextName: 'Local', functionName: 'Add()', fullName: 'sum' },
+    ]);
+    assert.deepStrictEqual(await findChanges(), [ 'greeting: Not initialized → "Hello"' ]);
+    assert.deepStrictEqual((await findChanges()).map((change) => change.replace(/\(\d+\)/u, '(address)')), [ 'point: Not initialized → Object (address)' ]);
+
+    // `sum` is out of scope until `Add()` is entered, so its first snapshot is the base of the comparison
+    assert.deepStrictEqual(await findChanges(), []);
+    assert.deepStrictEqual(await findChanges(), [ 'sum: Not initialized → 3' ]);
+    assert.deepStrictEqual(dataBreakpointManager.getAllBreakpoints().map((breakpoint) => breakpoint.hitCount), [ 1, 1, 1 ]);
+  });
+  test('fetch children by page', async function() {
+    const session = this.session as dbgp.Session;
+
+    await session.sendStepIntoCommand();
+    await session.sendStepIntoCommand();
+    await session.sendStepIntoCommand();
+    const { stackFrames: [ stackFrame ] } = await session.sendStackGetCommand();
+    const globalContext = (await session.sendContextNamesCommand(stackFrame)).contexts.find((context) => context.name === 'Global')!;
+    const point = (await session.sendPropertyGetCommand(globalContext, 'point')).properties[0] as dbgp.ObjectProperty;
+    assert.strictEqual(point.numberOfChildren, 2);
+
+    const children = await session.fetchPropertyChildren(point, 1, 1);
+    assert.deepStrictEqual(children.map((child) => child.fullName), [ 'point.y' ]);
+    assert.deepStrictEqual((await session.fetchPropertyChildren(point, 0, 5)).map((child) => child.name), [ 'x', 'y' ]);
+
+    // Paged by the configured `max_children`, which is never changed
+    await session.sendFeatureSetCommand('max_children', 1);
+    const pagedPoint = (await session.sendPropertyGetCommand(globalContext, 'point')).properties[0] as dbgp.ObjectProperty;
+    assert.strictEqual(pagedPoint.pageSize, 1);
+    assert.deepStrictEqual((await session.fetchPropertyChildren(pagedPoint, 1, 1)).map((child) => child.name), [ 'y' ]);
+    assert.deepStrictEqual((await session.fetchPropertyChildren(pagedPoint, 0, 5)).map((child) => child.name), [ 'x', 'y' ]);
+    const engine = this.engine as MockDbgpEngine;
+    assert.strictEqual(engine.receivedCommands.filter((command) => command.startsWith('feature_set') && command.includes('-n max_children')).length, 1);
+  });
+  test('chunk nodes by the page size', async function() {
+    const session = this.session as dbgp.Session;
+    const engine = this.engine as MockDbgpEngine;
+
+    await session.sendStepIntoCommand();
+    await session.sendStepIntoCommand();
+    await session.sendStepIntoCommand();
+    const { stackFrames: [ stackFrame ] } = await session.sendStackGetCommand();
+    const globalContext = (await session.sendContextNamesCommand(stackFrame)).contexts.find((context) => context.name === 'Global')!;
+    await session.sendFeatureSetCommand('max_children', 1);
+    const point = (await session.sendPropertyGetCommand(globalContext, 'point')).properties[0] as dbgp.ObjectProperty;
+
+    const variable = new Variable(session, point);
+    assert.strictEqual(variable.namedVariables, 2);
+    const chunks = (await variable.createMembers({ variablesReference: variable.variablesReference }))!;
+    assert.deepStrictEqual(chunks.map((chunk) => chunk.name), [ '[0..0]', '[1..1]' ]);
+
+    // Each chunk is a page of the engine, so it is fetched by one command without changing `max_children`
+    const commandCount = engine.receivedCommands.length;
+    const members = (await chunks[1].createMembers({ variablesReference: chunks[1].variablesReference }))!;
+    assert.deepStrictEqual(members.map((member) => member.name), [ 'y' ]);
+    const sentCommands = engine.receivedCommands.slice(commandCount);
+    assert.deepStrictEqual(sentCommands.filter((command) => command.includes(' -p ')).map((command) => command.replace(/ -i \d+/u, '')), [ 'property_get -n point -c 1 -d 0 -p 1' ]);
+    assert.ok(!sentCommands.some((command) => command.includes('-n max_children')));
+  });
+  test('variable formatters', async function() {
+    const session = this.session as dbgp.Session;
+    const formatter = new VariableFormatter(session, [
+      { className: 'Map', value: 'unused' },
+      { className: 'Object', value: '({x}, {y}) \\{{missing}\\}', children: [ 'x' ] },
+    ]);
+
+    await session.sendStepIntoCommand();
+    await session.sendStepIntoCommand();
+    await session.sendStepIntoCommand();
+    const { stackFrames: [ stackFrame ] } = await session.sendStackGetCommand();
+    const globalContext = (await session.sendContextNamesCommand(stackFrame)).contexts.find((context) => context.name === 'Global')!;
+    const point = (await session.sendPropertyGetCommand(globalContext, 'point')).properties[0] as dbgp.ObjectProperty;
+    const greeting = (await session.sendPropertyGetCommand(globalContext, 'greeting')).properties[0];
+
+    assert.strictEqual(await formatter.format(point), '(10, 20) {{missing}}');
+    assert.strictEqual(await formatter.format(point, { hex: true }), '(0xa, 0x14) {{missing}}');
+    assert.strictEqual(await formatter.format(greeting), undefined);
+    assert.deepStrictEqual((await formatter.filterChildren(point, point.children)).map((child) => child.name), [ 'x' ]);
+  });
+  test('changed values since the previous stop', async function() {
+    const session = this.session as dbgp.Session;
+    const tracker = new ValueChangeTracker();
+    const trackLocals = async(): Promise<string[]> => {
+      const { stackFrames: [ stackFrame ] } = await session.sendStackGetCommand();
+      const localContext = (await session.sendContextNamesCommand(stackFrame)).contexts.find((context) => context.name === 'Local')!;
+      const { properties } = await session.sendContextGetCommand(localContext);
+      return properties.filter((property) => tracker.track(property)).map((property) => property.name);
+    };
+
+    await session.sendStepIntoCommand();
+    await session.sendStepIntoCommand();
+    await session.sendStepIntoCommand();
+    await session.sendStepIntoCommand();
+    assert.deepStrictEqual(await trackLocals(), []);
+
+    tracker.nextStop();
+    await session.sendStepIntoCommand();
+    assert.deepStrictEqual(await trackLocals(), [ 'sum' ]);
+
+    // Still compared with the previous stop until the next one
+    assert.deepStrictEqual(await trackLocals(), [ 'sum' ]);
+    tracker.nextStop();
+    assert.deepStrictEqual(await trackLocals(), []);
+  });
+  test('restore hit counts in a new connection', async function() {
+    const session = this.session as dbgp.Session;
+    const breakpointManager = new BreakpointManager(session);
+    await breakpointManager.registerBreakpoint(programUri, 5, { hitCount: 0, logMessage: 'log', unverifiedLine: 5 });
+    await session.sendRunCommand();
+    breakpointManager.getLineBreakpoints(programUri, 6)!.incrementHitCount();
+
+    const { engine: restartedEngine, session: restartedSession } = await connectMockEngine('v2-function-call.json');
+    try {
+      const restoredBreakpointManager = new BreakpointManager(restartedSession);
+      await restoredBreakpointManager.registerBreakpoint(programUri, 5, { hitCount: 0, logMessage: 'log', unverifiedLine: 5 });
+      await restoredBreakpointManager.registerBreakpoint(programUri, 9, { hitCount: 0, unverifiedLine: 9 });
+      restoredBreakpointManager.restoreHitCounts(breakpointManager);
+
+      assert.strictEqual(restoredBreakpointManager.getLineBreakpoints(programUri, 6)![0].hitCount, 1);
+      assert.strictEqual(restoredBreakpointManager.getLineBreakpoints(programUri, 9)![0].hitCount, 0);
+    }
+    finally {
+      await restartedEngine.close();
+      await restartedSession.close();
+    }
+  });
+  test('expression evaluation', async function() {
+    const session = this.session as dbgp.Session;
+    const expressionEvaluator = new ExpressionEvaluator(session, new ConditionalEvaluator(session));
+    const evaluate = async(expression: string): Promise<string> => {
+      const value = await expressionEvaluator.eval(expression, new MetaVariableValueMap([ [ 'hitcount', 3 ] ]));
+      return value instanceof dbgp.ObjectProperty ? value.className : formatExpressionValue(value, session.ahkVersion).result;
+    };
+
+    await session.sendBreakpointSetCommand(programUri, 9);
+    await session.sendRunCommand();
+
+    assert.strictEqual(await evaluate('a + b * 2'), '5');
+    assert.strictEqual(await evaluate('(a + b) / 2'), '1.5');
+    assert.strictEqual(await evaluate('greeting " World"'), '"Hello World"');
+    assert.strictEqual(await evaluate('greeting . ": " . a'), '"Hello: 1"');
+    assert.strictEqual(await evaluate('point.x > 5 && point.y'), '20');
+    assert.strictEqual(await evaluate('!a || b = 2'), '1');
+    assert.strictEqual(await evaluate('a ? point : "none"'), 'Object');
+    assert.strictEqual(await evaluate('{hitCount} ** 2 - 1'), '8');
+    assert.strictEqual(await evaluate('point.Count() - 1'), '1');
+    await assert.rejects(expressionEvaluator.eval('Add(1, 2)', new MetaVariableValueMap()), /not supported/u);
+    await assert.rejects(expressionEvaluator.eval('greeting * 2', new MetaVariableValueMap()), /Expected a number/u);
+    assert.strictEqual(expressionEvaluator.parse('a := 1'), undefined);
+  });
+  test('full-length string value', async function() {
+    const session = this.session as dbgp.Session;
+
+    await session.sendStepIntoCommand();
+    const { stackFrames: [ stackFrame ] } = await session.sendStackGetCommand();
+    const globalContext = (await session.sendContextNamesCommand(stackFrame)).contexts.find((context) => context.name === 'Global')!;
+    const longText = 'a'.repeat(session.DEFAULT_MAX_DATA * 3 + 10);
+    await session.sendPropertySetCommand({ context: globalContext, fullName: 'greeting', typeName: 'string', data: longText });
+
+    const greeting = (await session.sendPropertyGetCommand(globalContext, 'greeting')).properties[0] as dbgp.PrimitiveProperty;
+    assert.ok(greeting.isTruncated);
+    assert.strictEqual(greeting.value.length, session.DEFAULT_MAX_DATA);
+    assert.strictEqual(greeting.size, longText.length);
+    assert.strictEqual(await session.fetchFullValue(globalContext, 'greeting'), longText);
+  });
+  test('command timeout', async function() {
+    const engine = this.engine as MockDbgpEngine;
+    const session = this.session as dbgp.Session;
+
+    const errors: Error[] = [];
+    session.on('commandError', (error: Error) => errors.push(error));
+    session.commandTimeout = 100;
+    engine.ignoredCommands.add('stack_get');
+    await assert.rejects(session.sendStackGetCommand(), dbgp.DbgpTimeoutError);
+    assert.ok(errors[0] instanceof dbgp.DbgpTimeoutError);
+
+    // Continuation commands are not covered by the timeout
+    engine.ignoredCommands.clear();
+    const response = await session.sendStepIntoCommand();
+    assert.strictEqual(response.status, 'break');
+  });
+  test('reject pending commands on close', async function() {
+    const engine = this.engine as MockDbgpEngine;
+    const session = this.session as dbgp.Session;
+
+    engine.ignoredCommands.add('stack_get');
+    const rejected = assert.rejects(session.sendStackGetCommand(), dbgp.DbgpConnectionClosedError);
+    await engine.close();
+    await rejected;
+  });
+  test('exception breakpoint', async function() {
+    const { engine, session } = await connectMockEngine('v2-exception.json');
+
+    try {
+      await session.sendExceptionBreakpointSetCommand('uncaught');
+      const response = await session.sendRunCommand();
+      assert.strictEqual(response.stopReason, 'exception');
+
+      const { stackFrames: [ stackFrame ] } = await session.sendStackGetCommand();
+      assert.strictEqual(stackFrame.line, 5);
+
+      const exception = await session.fetchException(stackFrame) as dbgp.ObjectProperty;
+      assert.strictEqual(exception.className, 'Error');
+      assert.deepStrictEqual(exception.children.map((child) => [ child.name, (child as dbgp.PrimitiveProperty).value ]).slice(0, 3), [ [ 'Message', 'Uncaught' ], [ 'What', 'Main' ], [ 'Extra', 'Extra info' ] ]);
+    }
+    finally {
+      await engine.close();
+      await session.close();
+    }
+  });
+  test('multiple connections', async function() {
+    const session = this.session as dbgp.Session;
+    const { engine: childEngine, session: childSession } = await connectMockEngine('v2-exception.json');
+
+    try {
+      assert.notStrictEqual(childSession.id, session.id);
+
+      await childSession.sendStepIntoCommand();
+      await session.sendStepIntoCommand();
+      await session.sendStepIntoCommand();
+      const { stackFrames: [ stackFrame ] } = await session.sendStackGetCommand();
+      const { stackFrames: [ childStackFrame ] } = await childSession.sendStackGetCommand();
+      assert.strictEqual(stackFrame.fileUri, programUri);
+      assert.strictEqual(stackFrame.line, 3);
+      assert.notStrictEqual(childStackFrame.fileUri, programUri);
+      assert.strictEqual(childStackFrame.line, 1);
+    }
+    finally {
+      await childEngine.close();
+      await childSession.close();
+    }
+  });
+  teardown(async function() {
+    await this.engine.close();
+    await this.session.close();
+  });
+});
+
+suite('Protocol record test', () => {
+  const programUri = URI.file('/project/demo.ahk2').toString();
+  const runScenario = async(session: dbgp.Session): Promise<Array<[ string, number ]>> => {
+    await session.sendBreakpointSetCommand(programUri, 9);
+    await session.sendRunCommand();
+    await session.sendStepOverCommand();
+    const { stackFrames } = await session.sendStackGetCommand();
+    return stackFrames.map((stackFrame) => [ stackFrame.name, stackFrame.line ]);
+  };
+
+  test('record and replay', async function() {
+    const recorder = new ProtocolRecorder(os.tmpdir());
+    try {
+      const { engine, session } = await connectMockEngine('v2-function-call.json', recorder);
+      const expected = await runScenario(session);
+      await engine.close();
+      await session.close();
+      await recorder.close();
+
+      const records = loadProtocolRecords(recorder.filePath);
+      assert.ok(records.some((record) => record.direction === 'send' && record.data.startsWith('breakpoint_set')));
+      assert.ok(records.some((record) => record.direction === 'receive' && record.data.includes('<init')));
+
+      const replayed = await new Promise<Array<[ string, number ]>>((resolve, reject) => {
+        let replayer: AutoHotkeyProcess | undefined;
+        const server = net.createServer((socket) => {
+          server.close();
+          const replayedSession = new dbgp.Session(socket);
+          replayedSession.on('init', () => {
+            runScenario(replayedSession).then(resolve, reject).finally(() => {
+              replayedSession.close();
+              replayer?.close();
+            });
+          });
+        }).listen(0, '127.0.0.1', () => {
+          replayer = ProtocolReplayer.load(recorder.filePath).replay((server.address() as net.AddressInfo).port, '127.0.0.1');
+        });
+      });
+      assert.deepStrictEqual(replayed, expected);
+    }
+    finally {
+      unlinkSync(recorder.filePath);
+    }
+  });
+});
@@ -0,0 +1,395 @@
+import * as assert from 'assert';
+import { DebugProtocol } from 'vscode-debugprotocol';
+import * as path from 'path';
+import { DebugAdapterHarness, connectEngine, startDebugAdapter } from './mock/DebugAdapterHarness';
+import { MockDbgpEngine } from './mock/MockDbgpEngine';
+import * as vscode from './mock/vscode';
+
+suite('Debug adapter test', () => {
+  let harness: DebugAdapterHarness;
+  teardown(async() => {
+    await harness.stop();
+  });
+
+  test('launch and stop at entry', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch({ stopOnEntry: true });
+
+    const stoppedEvent = await stopped as DebugProtocol.StoppedEvent;
+    assert.strictEqual(stoppedEvent.body.reason, 'step');
+
+    const { body: { stackFrames } } = await harness.client.stackTraceRequest({ threadId: stoppedEvent.body.threadId! });
+    assert.strictEqual(stackFrames.length, 1);
+    assert.strictEqual(stackFrames[0].line, 2);
+    assert.strictEqual(stackFrames[0].source?.path, harness.program);
+  });
+  test('stop at breakpoint and get variables', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    harness.client.once('initialized', () => {
+      harness.client.setBreakpointsRequest({ source: { path: harness.program }, breakpoints: [ { line: 9 } ] }).catch(() => undefined);
+    });
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch();
+
+    const stoppedEvent = await stopped as DebugProtocol.StoppedEvent;
+    assert.strictEqual(stoppedEvent.body.reason, 'breakpoint');
+
+    const { body: { stackFrames } } = await harness.client.stackTraceRequest({ threadId: stoppedEvent.body.threadId! });
+    assert.deepStrictEqual(stackFrames.map(({ name, line }) => ({ name, line })), [
+      { name: 'Add()', line: 9 },
+      { name: '', line: 6 },
+    ]);
+
+    const { body: { scopes } } = await harness.client.scopesRequest({ frameId: stackFrames[0].id });
+    const local = scopes.find((scope) => scope.name === 'Local')!;
+    const { body: { variables } } = await harness.client.variablesRequest({ variablesReference: local.variablesReference });
+    assert.deepStrictEqual(variables.map(({ name, value }) => ({ name, value })), [
+      { name: 'a', value: '1' },
+      { name: 'b', value: '2' },
+      { name: 'sum', value: 'Not initialized' },
+    ]);
+  });
+  test('step over and exit', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch({ stopOnEntry: true });
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+
+    const stepped = harness.client.waitForEvent('stopped');
+    await harness.client.nextRequest({ threadId: threadId! });
+    await stepped;
+    const { body: { stackFrames } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+    assert.strictEqual(stackFrames[0].line, 3);
+
+    const terminated = harness.client.waitForEvent('terminated');
+    await harness.client.continueRequest({ threadId: threadId! });
+    await terminated;
+  });
+  test('data breakpoint', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch({ stopOnEntry: true });
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+
+    const { body: { stackFrames } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+    const { body: { scopes } } = await harness.client.scopesRequest({ frameId: stackFrames[0].id });
+    const global = scopes.find((scope) => scope.name === 'Global')!;
+    const { body: { dataId } } = await harness.client.dataBreakpointInfoRequest({ variablesReference: global.variablesReference, name: 'greeting' });
+    assert.ok(dataId);
+    await harness.client.setDataBreakpointsRequest({ breakpoints: [ { dataId, accessType: 'write' } ] });
+
+    const dataBreakpointHit = harness.client.waitForEvent('stopped');
+    await harness.client.continueRequest({ threadId: threadId! });
+    const stoppedEvent = await dataBreakpointHit as DebugProtocol.StoppedEvent;
+    assert.strictEqual(stoppedEvent.body.reason, 'data breakpoint');
+
+    // Stops after the line that wrote the value
+    const { body: { stackFrames: stackFramesAfterWrite } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+    assert.strictEqual(stackFramesAfterWrite[0].line, 3);
+  });
+  test('thread events', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    const mainThreadStarted = harness.client.waitForEvent('thread');
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch({ stopOnEntry: true });
+    const mainThreadEvent = await mainThreadStarted as DebugProtocol.ThreadEvent;
+    assert.strictEqual(mainThreadEvent.body.reason, 'started');
+    await stopped;
+
+    // A script started with `/Debug` opens its own connection
+    const childEngine = MockDbgpEngine.load(path.resolve(__dirname, 'mock', 'scenarios', 'v2-function-call.json'));
+    const childThreadStarted = harness.client.waitForEvent('thread');
+    await connectEngine(childEngine, harness.port);
+    const childThreadEvent = await childThreadStarted as DebugProtocol.ThreadEvent;
+    assert.strictEqual(childThreadEvent.body.reason, 'started');
+    assert.notStrictEqual(childThreadEvent.body.threadId, mainThreadEvent.body.threadId);
+
+    const childThreadExited = harness.client.waitForEvent('thread');
+    await childEngine.close();
+    const exitedEvent = await childThreadExited as DebugProtocol.ThreadEvent;
+    assert.deepStrictEqual(exitedEvent.body, { reason: 'exited', threadId: childThreadEvent.body.threadId });
+  });
+  test('set variable', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    harness.client.once('initialized', () => {
+      harness.client.setBreakpointsRequest({ source: { path: harness.program }, breakpoints: [ { line: 6 } ] }).catch(() => undefined);
+    });
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch();
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+
+    const { body: { stackFrames } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+    const { body: { scopes } } = await harness.client.scopesRequest({ frameId: stackFrames[0].id });
+    const global = scopes.find((scope) => scope.name === 'Global')!;
+    await harness.client.variablesRequest({ variablesReference: global.variablesReference });
+
+    const { body } = await harness.client.setVariableRequest({ variablesReference: global.variablesReference, name: 'result', value: 'greeting' });
+    assert.strictEqual(body.value, '"Hello"');
+
+    // The debugger of AutoHotkey only accepts primitive values
+    await assert.rejects(harness.client.setVariableRequest({ variablesReference: global.variablesReference, name: 'result', value: '{}' }), /Objects cannot be assigned/u);
+    await assert.rejects(harness.client.setVariableRequest({ variablesReference: global.variablesReference, name: 'result', value: 'point' }), /Objects cannot be assigned/u);
+  });
+  test('variables of a failed fetch', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch({ stopOnEntry: true, commandTimeout: 200 });
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+
+    const { body: { stackFrames } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+    const { body: { scopes } } = await harness.client.scopesRequest({ frameId: stackFrames[0].id });
+    const global = scopes.find((scope) => scope.name === 'Global')!;
+    harness.engines[0].ignoredCommands.add('context_get');
+    await assert.rejects(harness.client.variablesRequest({ variablesReference: global.variablesReference }), /Failed to get the variables/u);
+  });
+  test('set expression', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    harness.client.once('initialized', () => {
+      harness.client.setBreakpointsRequest({ source: { path: harness.program }, breakpoints: [ { line: 6 } ] }).catch(() => undefined);
+    });
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch();
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+    const { body: { stackFrames: [ { id: frameId } ] } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+    // The DebugClient of this version does not have `setExpressionRequest`
+    const setExpression = async(args: DebugProtocol.SetExpressionArguments): Promise<DebugProtocol.SetExpressionResponse> => {
+      return harness.client.customRequest('setExpression', args) as Promise<DebugProtocol.SetExpressionResponse>;
+    };
+
+    const { body } = await setExpression({ frameId, expression: 'point.x', value: '5' });
+    assert.deepStrictEqual({ value: body.value, type: body.type }, { value: '5', type: 'integer' });
+    assert.strictEqual((await harness.client.evaluateRequest({ frameId, expression: 'point.x', context: 'watch' })).body.result, '5');
+
+    // A key that does not exist yet is added to the object
+    const { body: newKeyBody } = await setExpression({ frameId, expression: 'point.z', value: '"new"' });
+    assert.strictEqual(newKeyBody.value, '"new"');
+    assert.strictEqual((await harness.client.evaluateRequest({ frameId, expression: 'point.z', context: 'watch' })).body.result, '"new"');
+
+    // The debugger of AutoHotkey only accepts primitive values
+    await assert.rejects(setExpression({ frameId, expression: 'point.x', value: '{}' }), /Objects cannot be assigned/u);
+    await assert.rejects(setExpression({ frameId, expression: 'point.x', value: 'point' }), /Objects cannot be assigned/u);
+  });
+  test('debug console commands', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    harness.client.once('initialized', () => {
+      harness.client.setBreakpointsRequest({ source: { path: harness.program }, breakpoints: [ { line: 9 } ] }).catch(() => undefined);
+    });
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch();
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+    const { body: { stackFrames: [ { id: frameId } ] } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+    const execute = async(command: string): Promise<string> => {
+      return (await harness.client.evaluateRequest({ expression: command, context: 'repl', frameId })).body.result;
+    };
+
+    assert.strictEqual(await execute(':bp list'), `${harness.program}:9 [breakpoint] hits: 1`);
+    assert.strictEqual(await execute(':hits reset'), 'The hit counts of all breakpoints have been reset.');
+    assert.strictEqual(await execute(':bp list'), `${harness.program}:9 [breakpoint] hits: 0`);
+
+    assert.strictEqual(await execute(':set greeting = "Bye"'), 'greeting = "Bye"');
+    assert.strictEqual(await execute(':set greeting := a'), 'greeting = 1');
+    assert.match(await execute(':set greeting = point'), /^Error: .*Objects cannot be assigned/u);
+    assert.strictEqual((await harness.client.evaluateRequest({ expression: 'greeting', context: 'watch', frameId })).body.result, '1');
+
+    // Only the breakpoints of the specified file are removed from the editor
+    const otherBreakpoint = new vscode.SourceBreakpoint({ uri: { fsPath: path.resolve(path.dirname(harness.program), 'other.ahk2') } });
+    vscode.debug.breakpoints = [ new vscode.SourceBreakpoint({ uri: { fsPath: harness.program } }), otherBreakpoint ];
+    assert.strictEqual(await execute(`:bp clear ${path.basename(harness.program)}`), '1 breakpoint(s) removed.');
+    assert.deepStrictEqual(vscode.debug.breakpoints, [ otherBreakpoint ]);
+    assert.strictEqual(await execute(':bp clear'), '1 breakpoint(s) removed.');
+    assert.deepStrictEqual(vscode.debug.breakpoints, []);
+
+    assert.strictEqual(await execute(':unknown'), 'Error: Unknown command `:unknown`. Enter `:help` to see the available commands.');
+    assert.strictEqual(await execute(':bp unknown'), 'Error: Unknown command `:bp unknown`. Enter `:help` to see the available commands.');
+  });
+  test('completions', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    harness.client.once('initialized', () => {
+      harness.client.setBreakpointsRequest({ source: { path: harness.program }, breakpoints: [ { line: 6 } ] }).catch(() => undefined);
+    });
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch();
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+    const { body: { stackFrames: [ { id: frameId } ] } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+    const complete = async(text: string): Promise<DebugProtocol.CompletionItem[]> => {
+      return (await harness.client.completionsRequest({ frameId, text, column: text.length + 1 })).body.targets;
+    };
+
+    const variableLabels = (await complete('gre')).map((target) => target.label);
+    assert.ok(variableLabels.includes('greeting'));
+    assert.ok(variableLabels.includes('point'));
+    // Only prefix operators can be at the start of an expression
+    assert.ok(variableLabels.includes('countof'));
+    assert.ok(!variableLabels.includes('is'));
+    assert.ok(variableLabels.includes('{hitCount}'));
+
+    const members = await complete('point.');
+    assert.deepStrictEqual(members.map(({ label, type }) => ({ label, type })), [
+      { label: 'x', type: 'field' },
+      { label: 'y', type: 'field' },
+    ]);
+
+    // After an operand, the operators of the conditional breakpoint are suggested
+    assert.ok((await complete('point ')).some((target) => target.label === 'is' && target.type === 'keyword'));
+
+    const metaVariables = await complete('log {hitC');
+    assert.ok(metaVariables.every((target) => target.start === 5 && target.length === 5));
+    assert.ok(metaVariables.some((target) => target.label === '{hitCount}'));
+  });
+  test('step in targets of an unreadable source', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch({ stopOnEntry: true });
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+
+    // The scenario script does not exist on disk
+    const { body: { stackFrames } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+    const { body } = await harness.client.stepInTargetsRequest({ frameId: stackFrames[0].id });
+    assert.deepStrictEqual(body.targets, []);
+  });
+  test('breakpoint on a comment line', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch({ stopOnEntry: true });
+    await stopped;
+
+    // The moved line is reported only by the response
+    const { body: { breakpoints } } = await harness.client.setBreakpointsRequest({ source: { path: harness.program }, breakpoints: [ { line: 5 } ] });
+    assert.deepStrictEqual(breakpoints.map(({ verified, line }) => ({ verified, line })), [ { verified: true, line: 6 } ]);
+    await harness.client.threadsRequest();
+    assert.ok(!harness.events.some((event) => event.event === 'breakpoint'));
+  });
+  test('logpoint that takes longer than 30 seconds', async function() {
+    this.timeout(60 * 1000);
+    harness = await startDebugAdapter('v2-function-call.json');
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch({ stopOnEntry: true, deepCommandTimeout: 120 * 1000 });
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+
+    // Only `deepCommandTimeout` limits the deep fetch
+    harness.engines[0].deepFetchDelay = 31 * 1000;
+    await harness.client.setBreakpointsRequest({ source: { path: harness.program }, breakpoints: [ { line: 9, logMessage: '{point:2}' } ] });
+    const terminated = harness.client.waitForEvent('terminated', 50 * 1000);
+    await harness.client.continueRequest({ threadId: threadId! });
+    await terminated;
+
+    const outputEvents = harness.events.filter((event) => event.event === 'output') as DebugProtocol.OutputEvent[];
+    assert.ok(outputEvents.some((event) => 0 < (event.body.variablesReference ?? 0)));
+    assert.ok(!outputEvents.some((event) => event.body.output.includes('Timeout')));
+  });
+  test('data breakpoint with a breakpoint on a call line', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    harness.client.once('initialized', () => {
+      harness.client.setBreakpointsRequest({ source: { path: harness.program }, breakpoints: [ { line: 6 } ] }).catch(() => undefined);
+    });
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch({ stopOnEntry: true });
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+
+    const { body: { stackFrames } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+    const { body: { scopes } } = await harness.client.scopesRequest({ frameId: stackFrames[0].id });
+    const global = scopes.find((scope) => scope.name === 'Global')!;
+    const { body: { dataId } } = await harness.client.dataBreakpointInfoRequest({ variablesReference: global.variablesReference, name: 'greeting' });
+    await harness.client.setDataBreakpointsRequest({ breakpoints: [ { dataId: dataId!, accessType: 'write' } ] });
+
+    const dataBreakpointHit = harness.client.waitForEvent('stopped');
+    await harness.client.continueRequest({ threadId: threadId! });
+    assert.strictEqual((await dataBreakpointHit as DebugProtocol.StoppedEvent).body.reason, 'data breakpoint');
+
+    const breakpointHit = harness.client.waitForEvent('stopped');
+    await harness.client.continueRequest({ threadId: threadId! });
+    assert.strictEqual((await breakpointHit as DebugProtocol.StoppedEvent).body.reason, 'breakpoint');
+
+    // Coming back from `Add()` to the line of the call is not a second hit of the breakpoint
+    const terminated = harness.client.waitForEvent('terminated');
+    await harness.client.continueRequest({ threadId: threadId! });
+    await terminated;
+    const stoppedEvents = harness.events.filter((event) => event.event === 'stopped') as DebugProtocol.StoppedEvent[];
+    assert.deepStrictEqual(stoppedEvents.map((event) => event.body.reason), [ 'step', 'data breakpoint', 'breakpoint' ]);
+  });
+  test('mark changed values', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch({ stopOnEntry: true });
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+    const getGlobalVariables = async(): Promise<DebugProtocol.Variable[]> => {
+      const { body: { stackFrames } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+      const { body: { scopes } } = await harness.client.scopesRequest({ frameId: stackFrames[0].id });
+      const global = scopes.find((scope) => scope.name === 'Global')!;
+      return (await harness.client.variablesRequest({ variablesReference: global.variablesReference })).body.variables;
+    };
+    assert.ok((await getGlobalVariables()).every((variable) => !variable.value.endsWith('(changed)')));
+
+    const stepped = harness.client.waitForEvent('stopped');
+    await harness.client.nextRequest({ threadId: threadId! });
+    await stepped;
+    const variables = await getGlobalVariables();
+    const greeting = variables.find((variable) => variable.name === 'greeting')!;
+    assert.strictEqual(greeting.value, '"Hello"  (changed)');
+    assert.strictEqual(greeting.presentationHint, undefined);
+    const point = variables.find((variable) => variable.name === 'point')!;
+    assert.ok(!point.value.endsWith('(changed)'));
+  });
+  test('exception info of an uncaught exception', async() => {
+    harness = await startDebugAdapter('v2-exception.json');
+    harness.client.once('initialized', () => {
+      harness.client.setExceptionBreakpointsRequest({ filters: [ 'uncaught' ] }).catch(() => undefined);
+    });
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch();
+    const stoppedEvent = await stopped as DebugProtocol.StoppedEvent;
+    assert.strictEqual(stoppedEvent.body.reason, 'exception');
+
+    const { body } = await harness.client.exceptionInfoRequest({ threadId: stoppedEvent.body.threadId! });
+    assert.strictEqual(body.exceptionId, 'Error');
+    assert.strictEqual(body.breakMode, 'unhandled');
+  });
+  // The engine does not tell whether the exception is caught, so it may be either
+  test('exception info with the caught filter', async() => {
+    harness = await startDebugAdapter('v2-exception.json');
+    harness.client.once('initialized', () => {
+      harness.client.setExceptionBreakpointsRequest({ filters: [ 'caught' ] }).catch(() => undefined);
+    });
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch();
+    const stoppedEvent = await stopped as DebugProtocol.StoppedEvent;
+    assert.strictEqual(stoppedEvent.body.reason, 'exception');
+
+    const { body } = await harness.client.exceptionInfoRequest({ threadId: stoppedEvent.body.threadId! });
+    assert.strictEqual(body.exceptionId, 'ValueError');
+    assert.strictEqual(body.breakMode, 'always');
+  });
+  test('restart with the current breakpoints', async() => {
+    harness = await startDebugAdapter('v2-function-call.json');
+    harness.client.once('initialized', () => {
+      harness.client.setBreakpointsRequest({ source: { path: harness.program }, breakpoints: [ { line: 9 } ] }).catch(() => undefined);
+    });
+    const stopped = harness.client.waitForEvent('stopped');
+    await harness.launch({ stopOnEntry: true });
+    const { body: { threadId } } = await stopped as DebugProtocol.StoppedEvent;
+
+    const { body: { stackFrames } } = await harness.client.stackTraceRequest({ threadId: threadId! });
+    const { body: { scopes } } = await harness.client.scopesRequest({ frameId: stackFrames[0].id });
+    const global = scopes.find((scope) => scope.name === 'Global')!;
+    const { body: { dataId } } = await harness.client.dataBreakpointInfoRequest({ variablesReference: global.variablesReference, name: 'greeting' });
+    await harness.client.setDataBreakpointsRequest({ breakpoints: [ { dataId: dataId!, accessType: 'write' } ] });
+
+    // The breakpoints changed while restarting are the ones restored
+    const restarted = harness.client.waitForEvent('stopped');
+    await harness.client.restartRequest({});
+    await harness.client.setBreakpointsRequest({ source: { path: harness.program }, breakpoints: [ { line: 10 } ] });
+    const { body: { threadId: restartedThreadId } } = await restarted as DebugProtocol.StoppedEvent;
+    assert.strictEqual(harness.engines.length, 2);
+
+    const getStop = async(): Promise<{ reason: string; line: number }> => {
+      const stoppedAgain = harness.client.waitForEvent('stopped');
+      await harness.client.continueRequest({ threadId: restartedThreadId! });
+      const { body: { reason } } = await stoppedAgain as DebugProtocol.StoppedEvent;
+      const { body: { stackFrames: [ stackFrame ] } } = await harness.client.stackTraceRequest({ threadId: restartedThreadId! });
+      return { reason, line: stackFrame.line };
+    };
+    assert.deepStrictEqual(await getStop(), { reason: 'data breakpoint', line: 3 });
+    assert.deepStrictEqual(await getStop(), { reason: 'breakpoint', line: 10 });
+  });
+});
@@ -1,6 +1,13 @@
 import * as assert from 'assert';
 import { AhkVersion } from '@zero-plusplus/autohotkey-utilities';
 import { splitVariablePath } from '../src/util/util';
+import { FunctionDefinition, findFunctionDefinitions } from '../src/util/findFunctionDefinitions';
+import { StepInTargetCandidate, findStepInTargets } from '../src/util/findStepInTargets';
+import { findBreakpointLocations } from '../src/util/findBreakpointLocations';
+import { formatRuntimeError, parseRuntimeError } from '../src/util/parseRuntimeError';
+import { CancellationError, CancellationTokenSource, raceCancellation } from '../src/util/CancellationToken';
+import { formatInteger } from '../src/util/VariableManager';
+import { StopHistory, StopSnapshot, findChangedVariablePaths, formatStopSnapshot } from '../src/util/StopHistory';
 
 suite('splitVariablePath', () => {
   test('v1', () => {
@@ -24,3 +31,280 @@ suite('splitVariablePath', () => {
     assert.deepStrictEqual(splitVariablePath(ahkVersion, `a['\`'b.B\`'']['c'].d`), [ 'a', `['\`'b.B\`'']`, `['c']`, 'd' ]);
   });
 });
+suite('findFunctionDefinitions', () => {
+  const toSummary = (definitions: FunctionDefinition[]): string[] => definitions.map((definition) => `${definition.kind}:${definition.fullName}:${definition.line}`);
+  test('v1', () => {
+    const ahkVersion = new AhkVersion('1.1.33');
+    const source = [
+      'Foo(a, b := "{")',
+      '{',
+      '  return a',
+      '}',
+      'MyLabel:',
+      '  Bar()',
+      'return',
+      'class MyClass extends Base',
+      '{',
+      '  Save() {',
+      '    Foo(1, 2)',
+      '  }',
+      '  class Inner {',
+      '    __New() {',
+      '    }',
+      '  }',
+      '}',
+      '/*',
+      'Commented()',
+      '{',
+      '}',
+      '*/',
+      '^a::',
+      'Bar() { ; comment',
+      '}',
+    ].join('\n');
+    assert.deepStrictEqual(toSummary(findFunctionDefinitions(ahkVersion, source)), [
+      'function:Foo:1',
+      'label:MyLabel:5',
+      'method:MyClass.Save:10',
+      'method:MyClass.Inner.__New:14',
+      'function:Bar:24',
+    ]);
+  });
+  test('v2', () => {
+    const ahkVersion = new AhkVersion('2.0.2');
+    const source = [
+      'result := Add(1, 2)',
+      'Add(a, b) => a + b',
+      'class Point {',
+      '  static Create(x, y) {',
+      '    if (x) {',
+      '      return Point(x, y)',
+      '    }',
+      '  }',
+      '  ToString() => Format("({}, {})", this.x, this.y)',
+      '}',
+      'Outer() {',
+      '  Inner() {',
+      '  }',
+      '  switch x {',
+      '    default:',
+      '  }',
+      '}',
+    ].join('\n');
+    assert.deepStrictEqual(toSummary(findFunctionDefinitions(ahkVersion, source)), [
+      'function:Add:2',
+      'method:Point.Create:4',
+      'method:Point.ToString:9',
+      'function:Outer:11',
+      'function:Inner:12',
+    ]);
+  });
+});
+suite('findStepInTargets', () => {
+  const toSummary = (candidates: StepInTargetCandidate[]): string[] => candidates.map((candidate) => `${candidate.fullName}:${candidate.column}-${candidate.endColumn}`);
+  test('v1', () => {
+    const ahkVersion = new AhkVersion('1.1.33');
+    assert.deepStrictEqual(toSummary(findStepInTargets(ahkVersion, 'result := Format(Trim(a), Foo(b))')), [ 'Format:11-34', 'Trim:18-25', 'Foo:27-33' ]);
+    assert.deepStrictEqual(toSummary(findStepInTargets(ahkVersion, 'if (Foo("Bar(1)") && obj.Save()) ; Baz()')), [ 'Foo:5-18', 'obj.Save:22-32' ]);
+    assert.deepStrictEqual(toSummary(findStepInTargets(ahkVersion, 'Foo(Foo(1))')), [ 'Foo:1-12' ]);
+  });
+  test('v2', () => {
+    const ahkVersion = new AhkVersion('2.0.2');
+    assert.deepStrictEqual(toSummary(findStepInTargets(ahkVersion, `MsgBox(Format('{}(', list.Get(1).ToString()))`)), [ 'MsgBox:1-46', 'Format:8-45', 'list.Get:22-33', 'ToString:34-44' ]);
+    assert.deepStrictEqual(toSummary(findStepInTargets(ahkVersion, 'fn := %name%(1)')), []);
+  });
+});
+suite('findBreakpointLocations', () => {
+  test('v1', () => {
+    const ahkVersion = new AhkVersion('1.1.33');
+    const source = [
+      '#SingleInstance Force', // 1
+      '; comment', // 2
+      'text := "a"', // 3
+      '  . "b"', // 4
+      '', // 5
+      '/*', // 6
+      'Foo()', // 7
+      '*/', // 8
+      'Foo()', // 9
+      '{', // 10
+      '  var =', // 11
+      '  (', // 12
+      '    line', // 13
+      '  )', // 14
+      '  return var', // 15
+      '}', // 16
+    ].join('\n');
+    assert.deepStrictEqual(findBreakpointLocations(ahkVersion, source), [ 3, 11, 15 ]);
+    assert.deepStrictEqual(findBreakpointLocations(ahkVersion, source, 4, 11), [ 11 ]);
+  });
+  test('v2', () => {
+    const ahkVersion = new AhkVersion('2.0.2');
+    const source = [
+      'class Point {', // 1
+      '  __New(x) {', // 2
+      '    this.x := x ; comment */', // 3
+      '    && true', // 4
+      '  }', // 5
+      '}', // 6
+      '(Point(1)).x := 2', // 7
+    ].join('\n');
+    assert.deepStrictEqual(findBreakpointLocations(ahkVersion, source), [ 3, 7 ]);
+  });
+});
+suite('parseRuntimeError', () => {
+  test('v1 error dialog', () => {
+    const text = [
+      'Error:  Call to nonexistent function.',
+      '',
+      'Specifically: Foo()',
+      '',
+      '\tLine#',
+      '\t001: x := 1',
+      '--->\t002: Foo()',
+      '\t003: Exit',
+      '',
+      'Try to continue anyway?',
+    ].join('\n');
+    const error = parseRuntimeError(text, 'C:\\demo.ahk');
+    assert.deepStrictEqual(error, {
+      className: 'Error',
+      file: 'C:\\demo.ahk',
+      line: 2,
+      message: 'Call to nonexistent function.',
+      specifics: 'Foo()',
+      stack: [ { file: 'C:\\demo.ahk', line: 2, code: 'Foo()' } ],
+    });
+    assert.strictEqual(formatRuntimeError(error!), 'C:\\demo.ahk:2 : ==> Call to nonexistent function.\n     Specifically: Foo()\n');
+  });
+  test('v1 error in #include file', () => {
+    const text = [
+      'Error in #include file "C:\\lib.ahk":',
+      '     Call to nonexistent function.',
+      '',
+      'Specifically: Bar()',
+      '',
+      '\tLine#',
+      '--->\t010: Bar()',
+    ].join('\n');
+    const error = parseRuntimeError(text, 'C:\\demo.ahk');
+    assert.strictEqual(error?.file, 'C:\\lib.ahk');
+    assert.strictEqual(error.line, 10);
+    assert.strictEqual(error.message, 'Call to nonexistent function.');
+  });
+  test('v2 error dialog', () => {
+    const text = [
+      'TypeError: This value of type "String" has no method named "Foo".',
+      '',
+      '\tSpecifically: Foo',
+      '',
+      '\t002: x := "a"',
+      '▶\t003: x.Foo()',
+      '\t004: Exit',
+      '',
+      'Call stack:',
+      'C:\\lib.ahk (3) : [Bar] x.Foo()',
+      'C:\\demo.ahk (10) : [] Bar()',
+      '> Auto-execute',
+    ].join('\n');
+    const error = parseRuntimeError(text, 'C:\\demo.ahk');
+    assert.deepStrictEqual(error, {
+      className: 'TypeError',
+      file: 'C:\\lib.ahk',
+      line: 3,
+      message: 'This value of type "String" has no method named "Foo".',
+      specifics: 'Foo',
+      stack: [
+        { file: 'C:\\lib.ahk', line: 3, name: 'Bar', code: 'x.Foo()' },
+        { file: 'C:\\demo.ahk', line: 10, name: '', code: 'Bar()' },
+      ],
+    });
+    assert.strictEqual(formatRuntimeError(error!), [
+      'C:\\lib.ahk:3 : ==> This value of type "String" has no method named "Foo".',
+      '     Specifically: Foo',
+      '',
+      'Call stack:',
+      'C:\\lib.ahk:3 : [Bar] x.Foo()',
+      'C:\\demo.ahk:10 : [] Bar()',
+      '',
+    ].join('\n'));
+  });
+  test('ErrorStdOut', () => {
+    const error = parseRuntimeError('C:\\demo.ahk (5) : ==> Missing "}"\n     Specifically: {\n', 'C:\\other.ahk');
+    assert.deepStrictEqual(error, {
+      className: 'Error',
+      file: 'C:\\demo.ahk',
+      line: 5,
+      message: 'Missing "}"',
+      specifics: '{',
+      stack: [ { file: 'C:\\demo.ahk', line: 5 } ],
+    });
+  });
+  test('not an error', () => {
+    assert.strictEqual(parseRuntimeError('Error: but no line', 'C:\\demo.ahk'), undefined);
+    assert.strictEqual(parseRuntimeError('output', 'C:\\demo.ahk'), undefined);
+  });
+});
+suite('CancellationToken', () => {
+  test('raceCancellation', async() => {
+    const tokenSource = new CancellationTokenSource();
+    assert.strictEqual(await raceCancellation(Promise.resolve(1), tokenSource.token), 1);
+
+    const pending = raceCancellation(new Promise((resolve) => setTimeout(resolve, 1000)), tokenSource.token);
+    tokenSource.cancel();
+    await assert.rejects(pending, CancellationError);
+    await assert.rejects(raceCancellation(Promise.resolve(1), tokenSource.token), CancellationError);
+  });
+});
+suite('formatInteger', () => {
+  test('hex', () => {
+    assert.strictEqual(formatInteger('255'), '255');
+    assert.strictEqual(formatInteger('255', { hex: true }), '0xff');
+    assert.strictEqual(formatInteger('-1', { hex: true }), '-0x1');
+    assert.strictEqual(formatInteger('9223372036854775807', { hex: true }), '0x7fffffffffffffff');
+    assert.strictEqual(formatInteger('1.5', { hex: true }), '1.5');
+  });
+});
+suite('StopHistory', () => {
+  const createSnapshot = (x: string): Omit<StopSnapshot, 'id'> => ({
+    threadId: 1,
+    reason: 'step',
+    time: '2023-01-01 00:00:00.000',
+    stackFrames: [ { name: 'Add()', path: 'C:\\demo.ahk', line: 9 } ],
+    categories: [ { name: 'Global', variables: [ { name: 'point', value: '{x: 1}', type: 'object', children: [ { name: 'x', value: x, type: 'integer' } ] } ] } ],
+    metaVariables: [ { name: 'hitCount', value: '1' } ],
+  });
+  test('limit', () => {
+    const history = new StopHistory(2);
+    history.add(createSnapshot('1'));
+    history.add(createSnapshot('2'));
+    history.add(createSnapshot('3'));
+    assert.deepStrictEqual(history.getSummaries().map((summary) => summary.id), [ 3, 2 ]);
+    assert.strictEqual(history.get(1), undefined);
+    assert.strictEqual(history.latest?.id, 3);
+  });
+  test('findChangedVariablePaths', () => {
+    const history = new StopHistory(10);
+    const a = history.add(createSnapshot('1'));
+    const b = history.add(createSnapshot('2'));
+    assert.deepStrictEqual([ ...findChangedVariablePaths(a, b) ], [ 'Global/point/x' ]);
+    assert.strictEqual(findChangedVariablePaths(a, a).size, 0);
+  });
+  test('formatStopSnapshot', () => {
+    const snapshot = new StopHistory(10).add(createSnapshot('1'));
+    assert.strictEqual(formatStopSnapshot(snapshot), [
+      'Stop #1 (step) at 2023-01-01 00:00:00.000',
+      '',
+      'Call Stack:',
+      '  Add() (C:\\demo.ahk:9)',
+      '',
+      'Global:',
+      '  point: {x: 1}',
+      '    x: 1',
+      '',
+      'Meta Variables:',
+      '  {hitCount}: 1',
+      '',
+    ].join('\n'));
+  });
+});
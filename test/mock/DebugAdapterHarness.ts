@@ -0,0 +1,143 @@
+// Drive AhkDebugSession through DAP requests, with MockDbgpEngine in place of AutoHotkey.
+import './installVscodeMock';
+import * as net from 'net';
+import * as path from 'path';
+import { EventEmitter } from 'events';
+import { DebugClient } from 'vscode-debugadapter-testsupport';
+import { DebugProtocol } from 'vscode-debugprotocol';
+import { AhkDebugSession, LaunchRequestArguments } from '../../src/ahkDebug';
+import { AutoHotkeyLauncher, AutoHotkeyProcess } from '../../src/util/AutoHotkeyLuncher';
+import { MockDbgpEngine } from './MockDbgpEngine';
+
+const findFreePort = async(): Promise<number> => {
+  return new Promise((resolve) => {
+    const server = net.createServer().listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+};
+// The debug adapter launches the script before its server starts listening, so the engine retries like AutoHotkey waiting for the debugger
+export const connectEngine = async(engine: MockDbgpEngine, port: number): Promise<void> => {
+  for (let i = 0; i < 100; i++) {
+    try {
+      // eslint-disable-next-line no-await-in-loop
+      await engine.connect(port);
+      return;
+    }
+    catch {
+      // eslint-disable-next-line no-await-in-loop
+      await new Promise((resolve) => setTimeout(resolve, 20));
+    }
+  }
+  throw Error(`Failed to connect to the port ${port}`);
+};
+
+export interface DebugAdapterHarness {
+  client: DebugClient;
+  // The engines launched so far. A new one is added on each restart
+  engines: MockDbgpEngine[];
+  port: number;
+  program: string;
+  // All events received since the start, so that the ones sent during the launch can be checked
+  events: DebugProtocol.Event[];
+  launch: (config?: Partial<LaunchRequestArguments>) => Promise<void>;
+  stop: () => Promise<void>;
+}
+/**
+ * Start the debug adapter in this process and connect a DebugClient to it.
+ * `launch` sends the initialize, launch and configurationDone requests, as VS Code does.
+ */
+export const startDebugAdapter = async(scenarioName: string): Promise<DebugAdapterHarness> => {
+  const scenarioPath = path.resolve(__dirname, 'scenarios', scenarioName);
+  const port = await findFreePort();
+  const engines: MockDbgpEngine[] = [];
+
+  const originalLaunch = AutoHotkeyLauncher.prototype.launch;
+  AutoHotkeyLauncher.prototype.launch = function(): AutoHotkeyProcess {
+    const engine = MockDbgpEngine.load(scenarioPath);
+    engines.push(engine);
+
+    const event = new EventEmitter();
+    engine.once('close', () => event.emit('close', 0));
+    connectEngine(engine, port).catch(() => event.emit('close', 1));
+    return {
+      command: `mock ${scenarioName}`,
+      event,
+      close: (): void => {
+        engine.close();
+      },
+    };
+  };
+
+  const adapterServer = net.createServer((socket) => {
+    const session = new AhkDebugSession();
+    session.setRunAsServer(true);
+    session.start(socket, socket);
+  });
+  await new Promise<void>((resolve) => adapterServer.listen(0, '127.0.0.1', () => resolve()));
+
+  const client = new DebugClient('node', '', 'autohotkey');
+  const events: DebugProtocol.Event[] = [];
+  const originalEmit = client.emit.bind(client);
+  client.emit = (eventName: string | symbol, ...args: unknown[]): boolean => {
+    const message = args[0] as DebugProtocol.ProtocolMessage | undefined;
+    if (message?.type === 'event') {
+      events.push(message as DebugProtocol.Event);
+    }
+    return originalEmit(eventName, ...args);
+  };
+  await client.start((adapterServer.address() as net.AddressInfo).port);
+
+  const program = MockDbgpEngine.load(scenarioPath).scenario.program;
+  return {
+    client,
+    engines,
+    port,
+    program,
+    events,
+    launch: async(config?: Partial<LaunchRequestArguments>): Promise<void> => {
+      const launchConfig: Partial<LaunchRequestArguments> = {
+        name: 'test',
+        request: 'launch',
+        runtime: 'AutoHotkey.exe',
+        hostname: '127.0.0.1',
+        port,
+        program,
+        cwd: path.dirname(program),
+        runtimeArgs: [],
+        args: [],
+        env: {},
+        stopOnEntry: false,
+        maxChildren: 10000,
+        commandTimeout: 5000,
+        deepCommandTimeout: 5000,
+        useIntelliSenseInDebugging: false,
+        usePerfTips: false,
+        useDebugDirective: false,
+        useAutoJumpToError: false,
+        useUIAVersion: false,
+        useOutputDebug: false,
+        useAnnounce: false,
+        useLoadedScripts: false,
+        useStopHistory: false,
+        valueFormat: 'decimal',
+        trace: false,
+        recordProtocol: false,
+        ...config,
+      };
+      await Promise.all([
+        client.configurationSequence(),
+        client.launch(launchConfig),
+      ]);
+    },
+    stop: async(): Promise<void> => {
+      // `stop` sends the disconnect request without arguments, which VS Code never does, so only the connection is closed after the request
+      await client.disconnectRequest({ restart: false }).catch(() => undefined);
+      (client as unknown as { stopAdapter: () => void }).stopAdapter();
+      await Promise.all(engines.map(async(engine) => engine.close()));
+      adapterServer.close();
+      AutoHotkeyLauncher.prototype.launch = originalLaunch;
+    },
+  };
+};
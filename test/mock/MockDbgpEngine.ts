@@ -0,0 +1,697 @@
+// A fake AutoHotkey debugger engine that speaks DBGp over a socket.
+// Ref: https://xdebug.org/docs/dbgp
+import * as net from 'net';
+import { EventEmitter } from 'events';
+import { readFileSync } from 'fs';
+import { URI } from 'vscode-uri';
+
+// #region scenario
+export type ScenarioValue = null | boolean | number | string | ScenarioValue[] | ScenarioObject;
+export interface ScenarioObject {
+  // Overrides the class name of the object. e.g. `{ "<class>": "Map", "key": "value" }`
+  '<class>'?: string;
+  [key: string]: ScenarioValue | undefined;
+}
+export interface ScenarioFrame {
+  where: string;
+  line: number;
+  // Default to `Scenario.program`
+  file?: string;
+  locals?: Record<string, ScenarioValue>;
+}
+export interface ScenarioStep {
+  // The first element is the top of the call stack
+  stack: ScenarioFrame[];
+  // Global variables assigned when this step is reached
+  globals?: Record<string, ScenarioValue>;
+  // Text written to stdout when this step is reached
+  stdout?: string;
+  // Value thrown at this step
+  exception?: {
+    value: ScenarioValue;
+    // Whether the exception is caught by `try`
+    caught?: boolean;
+  };
+}
+export interface Scenario {
+  language_version: string;
+  program: string;
+  // Script lines for each file. Used to move breakpoints on lines without code, as the real engine does
+  sources?: Record<string, string[]>;
+  globals?: Record<string, ScenarioValue>;
+  trace: ScenarioStep[];
+}
+export const loadScenario = (scenarioPath: string): Scenario => {
+  return JSON.parse(readFileSync(scenarioPath, 'utf-8')) as Scenario;
+};
+// #endregion scenario
+
+// #region value
+type PrimitiveType = 'undefined' | 'string' | 'integer' | 'float';
+interface MockPrimitive {
+  kind: 'primitive';
+  type: PrimitiveType;
+  value: string;
+}
+interface MockObject {
+  kind: 'object';
+  className: string;
+  address: number;
+  children: Members;
+}
+type MockValue = MockPrimitive | MockObject;
+// Variable and key names are case-insensitive, so members are keyed by the lower-cased name while keeping the original one
+type Members = Map<string, { name: string; value: MockValue }>;
+
+const escapeXml = (str: string): string => {
+  return str
+    .replace(/&/gu, '&amp;')
+    .replace(/</gu, '&lt;')
+    .replace(/>/gu, '&gt;')
+    .replace(/"/gu, '&quot;');
+};
+const toBase64 = (str: string): string => Buffer.from(str).toString('base64');
+const fromBase64 = (str: string): string => Buffer.from(str, 'base64').toString();
+// #endregion value
+
+interface Command {
+  name: string;
+  transactionId: string;
+  args: Map<string, string>;
+  data?: string;
+}
+interface MockBreakpoint {
+  id: number;
+  type: 'line' | 'exception';
+  state: 'enabled' | 'disabled';
+  fileUri: string;
+  line: number;
+  temporary: boolean;
+  // The following are for exception breakpoints only
+  caught?: boolean;
+  exceptionName?: string;
+}
+type ContinuationStatus = 'starting' | 'break' | 'stopping' | 'stopped';
+const contextNames = [ 'Local', 'Global' ];
+
+/**
+ * Replay a declarative scenario as if AutoHotkey were running the script.
+ * Each step of the trace is a position where the engine can break; `run` and `step_*` move through the trace.
+ * The `close` event is emitted when the connection is closed, i.e. when the script exits.
+ */
+export class MockDbgpEngine extends EventEmitter {
+  public readonly scenario: Scenario;
+  public readonly receivedCommands: string[] = [];
+  // Commands that are received but never answered, to simulate a hung engine
+  public readonly ignoredCommands = new Set<string>();
+  // Milliseconds to wait before answering `context_get` or `property_get` of an object while `max_depth` is above 1, to simulate a slow deep fetch
+  public deepFetchDelay = 0;
+  private socket?: net.Socket;
+  private position = -1;
+  private status: ContinuationStatus = 'starting';
+  private addressCounter = 1000;
+  private breakpointCounter = 0;
+  private readonly breakpoints = new Map<number, MockBreakpoint>();
+  private readonly features = new Map<string, string>([
+    [ 'max_depth', '1' ],
+    [ 'max_children', '10000' ],
+    [ 'max_data', '1024' ],
+  ]);
+  private readonly globals: Members = new Map();
+  private readonly locals = new Map<number, Members>();
+  private thrownValue?: MockValue;
+  private insufficientData = '';
+  private get isV2(): boolean {
+    return this.scenario.language_version.startsWith('2');
+  }
+  private get currentStep(): ScenarioStep | undefined {
+    return this.scenario.trace[this.position] as ScenarioStep | undefined;
+  }
+  constructor(scenario: Scenario) {
+    super();
+    this.scenario = scenario;
+    this.assignMembers(this.globals, scenario.globals ?? {});
+  }
+  public static load(scenarioPath: string): MockDbgpEngine {
+    return new MockDbgpEngine(loadScenario(scenarioPath));
+  }
+  public async connect(port: number, hostname = '127.0.0.1'): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      let isConnected = false;
+      this.socket = net.connect(port, hostname)
+        .on('connect', () => {
+          isConnected = true;
+          this.sendInitPacket();
+          resolve();
+        })
+        .on('data', (packet: Buffer) => this.handlePacket(packet))
+        .on('close', () => {
+          // A failed connection is not the exit of the script
+          if (isConnected) {
+            this.emit('close');
+          }
+        })
+        .on('error', reject);
+    });
+  }
+  public async close(): Promise<void> {
+    return new Promise<void>((resolve) => {
+      if (!this.socket || this.socket.destroyed) {
+        resolve();
+        return;
+      }
+      this.socket.once('close', () => resolve());
+      this.socket.end();
+    });
+  }
+
+  // #region protocol
+  private sendInitPacket(): void {
+    const fileUri = this.toFileUri(this.scenario.program);
+    this.send(`<init appid="AutoHotkey" ide_key="" session="" thread="1" parent="" language="AutoHotkey" protocol_version="1.0" fileuri="${escapeXml(fileUri)}"/>`);
+  }
+  private send(xml: string): void {
+    if (!this.socket || this.socket.destroyed) {
+      return;
+    }
+
+    const body = `<?xml version="1.0" encoding="UTF-8"?>${xml}`;
+    this.socket.write(`${Buffer.byteLength(body)}\0${body}\0`);
+  }
+  private handlePacket(packet: Buffer): void {
+    const commands = `${this.insufficientData}${packet.toString()}`.split('\0');
+    this.insufficientData = commands.pop() ?? '';
+
+    for (const command of commands) {
+      if (command === '') {
+        continue;
+      }
+      this.receivedCommands.push(command);
+      const parsed = this.parseCommand(command);
+      if (this.ignoredCommands.has(parsed.name)) {
+        continue;
+      }
+      this.handleCommand(parsed);
+    }
+  }
+  private parseCommand(command: string): Command {
+    const [ commandLine, data ] = command.split(' -- ');
+    const [ name, ...rest ] = commandLine.split(' ');
+
+    const args = new Map<string, string>();
+    for (let i = 0; i < rest.length; i++) {
+      const option = rest[i];
+      if (!option.startsWith('-')) {
+        continue;
+      }
+
+      // Values such as property names may contain spaces, so join them until the next option appears
+      const values: string[] = [];
+      while (i + 1 < rest.length && !(/^-[a-z]$/u).test(rest[i + 1])) {
+        values.push(rest[++i]);
+      }
+      args.set(option.slice(1), values.join(' '));
+    }
+    return { name, transactionId: args.get('i') ?? '', args, data: typeof data === 'undefined' ? undefined : fromBase64(data) };
+  }
+  private response(command: Command, attributes: Record<string, string | number> = {}, content = ''): void {
+    const attrs = Object.entries(attributes).map(([ key, value ]) => ` ${key}="${escapeXml(String(value))}"`).join('');
+    this.send(`<response xmlns="urn:debugger_protocol_v1" command="${command.name}" transaction_id="${command.transactionId}"${attrs}>${content}</response>`);
+  }
+  private deepFetchResponse(command: Command, attributes: Record<string, string | number>, content: string): void {
+    if (0 < this.deepFetchDelay && 1 < parseInt(this.features.get('max_depth') ?? '1', 10)) {
+      setTimeout(() => this.response(command, attributes, content), this.deepFetchDelay);
+      return;
+    }
+    this.response(command, attributes, content);
+  }
+  private errorResponse(command: Command, code: number): void {
+    this.response(command, {}, `<error code="${code}"><message>error</message></error>`);
+  }
+  private handleCommand(command: Command): void {
+    switch (command.name) {
+      case 'feature_get': return this.featureGet(command);
+      case 'feature_set': return this.featureSet(command);
+      case 'stdout':
+      case 'stderr': return this.response(command, { success: 1 });
+      case 'run':
+      case 'step_into':
+      case 'step_over':
+      case 'step_out': return this.continuation(command);
+      case 'break':
+      case 'status': return this.response(command, { status: this.status, reason: 'ok' });
+      case 'stop':
+      case 'detach': return this.exit(command);
+      case 'stack_depth': return this.response(command, { depth: this.currentStep?.stack.length ?? 0 });
+      case 'stack_get': return this.stackGet(command);
+      case 'context_names': return this.contextNames(command);
+      case 'context_get': return this.contextGet(command);
+      case 'property_get': return this.propertyGet(command);
+      case 'property_value': return this.propertyValue(command);
+      case 'property_set': return this.propertySet(command);
+      case 'breakpoint_set': return this.breakpointSet(command);
+      case 'breakpoint_get': return this.breakpointGet(command);
+      case 'breakpoint_remove': return this.breakpointRemove(command);
+      case 'breakpoint_list': return this.breakpointList(command);
+      default: return this.errorResponse(command, 4);
+    }
+  }
+  // #endregion protocol
+
+  // #region commands
+  private featureGet(command: Command): void {
+    const featureName = command.args.get('n') ?? '';
+    if (featureName === 'language_version') {
+      this.response(command, { feature_name: featureName, supported: 1 }, this.scenario.language_version);
+      return;
+    }
+    if (this.features.has(featureName)) {
+      this.response(command, { feature_name: featureName, supported: 1 }, this.features.get(featureName));
+      return;
+    }
+    this.response(command, { feature_name: featureName, supported: 0 });
+  }
+  private featureSet(command: Command): void {
+    const featureName = command.args.get('n') ?? '';
+    this.features.set(featureName, command.args.get('v') ?? '');
+    this.response(command, { feature: featureName, success: 1 });
+  }
+  private continuation(command: Command): void {
+    const depth = this.currentStep?.stack.length ?? 0;
+    const isStopPosition = (step: ScenarioStep): boolean => {
+      if (command.name === 'step_into' || this.hitBreakpoint(step)) {
+        return true;
+      }
+      if (command.name === 'step_over') {
+        return step.stack.length <= depth;
+      }
+      if (command.name === 'step_out') {
+        return step.stack.length < depth;
+      }
+      return false;
+    };
+
+    this.status = 'break';
+    while (this.position + 1 < this.scenario.trace.length) {
+      this.position++;
+      const step = this.scenario.trace[this.position];
+      this.enterStep(step);
+      if (this.hitExceptionBreakpoint(step)) {
+        this.response(command, { status: 'break', reason: 'exception' });
+        return;
+      }
+      if (isStopPosition(step)) {
+        this.response(command, { status: 'break', reason: 'ok' });
+        return;
+      }
+    }
+
+    this.status = 'stopped';
+    this.response(command, { status: 'stopped', reason: 'ok' });
+    this.socket?.end();
+  }
+  private exit(command: Command): void {
+    this.status = 'stopped';
+    this.response(command, { status: 'stopped', reason: 'ok' });
+    this.socket?.end();
+  }
+  private stackGet(command: Command): void {
+    const stack = this.currentStep?.stack ?? [];
+    const depth = command.args.get('d');
+    const frames = stack
+      .map((frame, level) => ({ frame, level }))
+      .filter(({ level }) => typeof depth === 'undefined' || level === parseInt(depth, 10));
+
+    const content = frames.map(({ frame, level }) => {
+      const fileUri = this.toFileUri(frame.file ?? this.scenario.program);
+      return `<stack level="${level}" type="file" filename="${escapeXml(fileUri)}" lineno="${frame.line}" where="${escapeXml(frame.where)}"/>`;
+    }).join('');
+    this.response(command, {}, content);
+  }
+  private contextNames(command: Command): void {
+    this.response(command, {}, contextNames.map((name, id) => `<context name="${name}" id="${id}"/>`).join(''));
+  }
+  private contextGet(command: Command): void {
+    const contextId = parseInt(command.args.get('c') ?? '0', 10);
+    const level = parseInt(command.args.get('d') ?? '0', 10);
+    const variables = this.getVariables(contextId, level);
+    if (!variables) {
+      this.errorResponse(command, 302);
+      return;
+    }
+
+    const content = Array.from(variables.values())
+      .map(({ name, value }) => this.createPropertyXml(name, name, value, 0))
+      .join('');
+    this.deepFetchResponse(command, { context: contextId }, content);
+  }
+  private propertyGet(command: Command): void {
+    const fullName = command.args.get('n') ?? '';
+    const contextId = parseInt(command.args.get('c') ?? '0', 10);
+    const level = parseInt(command.args.get('d') ?? '0', 10);
+    const page = parseInt(command.args.get('p') ?? '0', 10);
+
+    const pathArray = this.splitPath(fullName);
+    const value = this.resolveValue(contextId, level, pathArray);
+    if (value === null) {
+      this.errorResponse(command, 300);
+      return;
+    }
+
+    const name = pathArray[pathArray.length - 1];
+    const property = value ?? { kind: 'primitive', type: 'undefined', value: '' };
+    const maxData = command.args.has('m') ? parseInt(command.args.get('m')!, 10) : undefined;
+    const xml = this.createPropertyXml(name, fullName, property, 0, page, maxData);
+    if (property.kind === 'object') {
+      this.deepFetchResponse(command, {}, xml);
+      return;
+    }
+    this.response(command, {}, xml);
+  }
+  private propertyValue(command: Command): void {
+    const fullName = command.args.get('n') ?? '';
+    const contextId = parseInt(command.args.get('c') ?? '0', 10);
+    const level = parseInt(command.args.get('d') ?? '0', 10);
+
+    const value = this.resolveValue(contextId, level, this.splitPath(fullName));
+    if (!value) {
+      this.errorResponse(command, 300);
+      return;
+    }
+    if (value.kind === 'object') {
+      this.response(command, { size: 0 });
+      return;
+    }
+    const maxData = command.args.has('m') ? parseInt(command.args.get('m')!, 10) : undefined;
+    this.response(command, { size: Buffer.byteLength(value.value), encoding: 'base64' }, toBase64(this.truncateData(value.value, maxData)));
+  }
+  private propertySet(command: Command): void {
+    const fullName = command.args.get('n') ?? '';
+    const contextId = parseInt(command.args.get('c') ?? '0', 10);
+    const level = parseInt(command.args.get('d') ?? '0', 10);
+    const type = (command.args.get('t') ?? 'string') as PrimitiveType;
+
+    const pathArray = this.splitPath(fullName);
+    const newValue: MockPrimitive = { kind: 'primitive', type, value: command.data ?? '' };
+    if (pathArray.length === 1) {
+      const variables = this.getVariables(contextId, level);
+      if (!variables) {
+        this.response(command, { success: 0 });
+        return;
+      }
+      variables.set(pathArray[0].toLowerCase(), { name: pathArray[0], value: newValue });
+      this.response(command, { success: 1 });
+      return;
+    }
+
+    const parent = this.resolveValue(contextId, level, pathArray.slice(0, -1));
+    if (!parent || parent.kind !== 'object') {
+      this.response(command, { success: 0 });
+      return;
+    }
+    const key = pathArray[pathArray.length - 1];
+    parent.children.set(key.toLowerCase(), { name: key, value: newValue });
+    this.response(command, { success: 1 });
+  }
+  private breakpointSet(command: Command): void {
+    const type = command.args.get('t');
+    if (type === 'exception') {
+      this.exceptionBreakpointSet(command);
+      return;
+    }
+    if (type !== 'line') {
+      this.errorResponse(command, 201);
+      return;
+    }
+
+    const fileUri = command.args.get('f') ?? '';
+    const line = this.findExecutableLine(fileUri, parseInt(command.args.get('n') ?? '0', 10));
+    if (line === -1) {
+      this.errorResponse(command, 202);
+      return;
+    }
+
+    // As with AutoHotkey, only one breakpoint can be set per line, and setting it again overwrites its state
+    const registered = Array.from(this.breakpoints.values()).find((breakpoint) => breakpoint.type === 'line' && this.equalsFileUri(breakpoint.fileUri, fileUri) && breakpoint.line === line);
+    if (registered) {
+      registered.state = command.args.get('s') === 'disabled' ? 'disabled' : 'enabled';
+      registered.temporary = command.args.get('r') === '1';
+      this.response(command, { state: registered.state, id: registered.id });
+      return;
+    }
+
+    const breakpoint: MockBreakpoint = {
+      id: ++this.breakpointCounter,
+      type: 'line',
+      state: command.args.get('s') === 'disabled' ? 'disabled' : 'enabled',
+      fileUri,
+      line,
+      temporary: command.args.get('r') === '1',
+    };
+    this.breakpoints.set(breakpoint.id, breakpoint);
+    this.response(command, { state: breakpoint.state, id: breakpoint.id });
+  }
+  private exceptionBreakpointSet(command: Command): void {
+    const breakpoint: MockBreakpoint = {
+      id: ++this.breakpointCounter,
+      type: 'exception',
+      state: command.args.get('s') === 'disabled' ? 'disabled' : 'enabled',
+      fileUri: '',
+      line: 0,
+      temporary: false,
+      caught: command.args.get('c') === '1',
+      exceptionName: command.args.get('x'),
+    };
+    this.breakpoints.set(breakpoint.id, breakpoint);
+    this.response(command, { state: breakpoint.state, id: breakpoint.id });
+  }
+  private breakpointGet(command: Command): void {
+    const breakpoint = this.breakpoints.get(parseInt(command.args.get('d') ?? '', 10));
+    if (!breakpoint) {
+      this.errorResponse(command, 205);
+      return;
+    }
+    this.response(command, {}, this.createBreakpointXml(breakpoint));
+  }
+  private breakpointRemove(command: Command): void {
+    const id = parseInt(command.args.get('d') ?? '', 10);
+    if (!this.breakpoints.delete(id)) {
+      this.errorResponse(command, 205);
+      return;
+    }
+    this.response(command);
+  }
+  private breakpointList(command: Command): void {
+    this.response(command, {}, Array.from(this.breakpoints.values()).map((breakpoint) => this.createBreakpointXml(breakpoint)).join(''));
+  }
+  // #endregion commands
+
+  // #region util
+  private enterStep(step: ScenarioStep): void {
+    this.assignMembers(this.globals, step.globals ?? {});
+    this.thrownValue = step.exception ? this.createValue(step.exception.value) : undefined;
+    this.locals.clear();
+    step.stack.forEach((frame, level) => {
+      this.locals.set(level, this.assignMembers(new Map(), frame.locals ?? {}));
+    });
+
+    if (step.stdout) {
+      this.send(`<stream type="stdout" encoding="base64">${toBase64(step.stdout)}</stream>`);
+    }
+  }
+  private hitBreakpoint(step: ScenarioStep): boolean {
+    const frame = step.stack[0] as ScenarioFrame | undefined;
+    if (!frame) {
+      return false;
+    }
+
+    const fileUri = this.toFileUri(frame.file ?? this.scenario.program);
+    for (const breakpoint of this.breakpoints.values()) {
+      if (breakpoint.type === 'line' && breakpoint.state === 'enabled' && breakpoint.line === frame.line && this.equalsFileUri(breakpoint.fileUri, fileUri)) {
+        if (breakpoint.temporary) {
+          this.breakpoints.delete(breakpoint.id);
+        }
+        return true;
+      }
+    }
+    return false;
+  }
+  private hitExceptionBreakpoint(step: ScenarioStep): boolean {
+    if (!step.exception || !this.thrownValue) {
+      return false;
+    }
+
+    const className = this.thrownValue.kind === 'object' ? this.thrownValue.className : '';
+    for (const breakpoint of this.breakpoints.values()) {
+      if (breakpoint.type !== 'exception' || breakpoint.state !== 'enabled') {
+        continue;
+      }
+      if (step.exception.caught && !breakpoint.caught) {
+        continue;
+      }
+      if (breakpoint.exceptionName && breakpoint.exceptionName.toLowerCase() !== className.toLowerCase()) {
+        continue;
+      }
+      return true;
+    }
+    return false;
+  }
+  private findExecutableLine(fileUri: string, line: number): number {
+    const filePath = Object.keys(this.scenario.sources ?? {}).find((filePath) => this.equalsFileUri(this.toFileUri(filePath), fileUri));
+    if (!filePath) {
+      return line;
+    }
+
+    const lines = this.scenario.sources![filePath];
+    for (let i = Math.max(line, 1); i <= lines.length; i++) {
+      const text = lines[i - 1].trim();
+      if (text !== '' && !text.startsWith(';')) {
+        return i;
+      }
+    }
+    return -1;
+  }
+  private createValue(value: ScenarioValue): MockValue {
+    if (value === null) {
+      return { kind: 'primitive', type: 'undefined', value: '' };
+    }
+    if (typeof value === 'boolean') {
+      return { kind: 'primitive', type: 'integer', value: value ? '1' : '0' };
+    }
+    if (typeof value === 'number') {
+      return { kind: 'primitive', type: Number.isInteger(value) ? 'integer' : 'float', value: String(value) };
+    }
+    if (typeof value === 'string') {
+      return { kind: 'primitive', type: 'string', value };
+    }
+
+    const children: Members = new Map();
+    if (Array.isArray(value)) {
+      value.forEach((element, i) => children.set(`[${i + 1}]`, { name: `[${i + 1}]`, value: this.createValue(element) }));
+      return { kind: 'object', className: this.isV2 ? 'Array' : 'Object', address: this.addressCounter++, children };
+    }
+
+    const className = value['<class>'] ?? 'Object';
+    Object.entries(value).forEach(([ key, child ]) => {
+      if (key === '<class>' || typeof child === 'undefined') {
+        return;
+      }
+      const name = className === 'Map' ? `["${key}"]` : key;
+      children.set(name.toLowerCase(), { name, value: this.createValue(child) });
+    });
+    return { kind: 'object', className, address: this.addressCounter++, children };
+  }
+  // As with AutoHotkey, data longer than `max_data` is cut off, but `size` is the size of the full value. 0 means unlimited
+  private truncateData(value: string, maxData = parseInt(this.features.get('max_data') ?? '0', 10)): string {
+    const data = Buffer.from(value);
+    return 0 < maxData && maxData < data.length ? data.slice(0, maxData).toString() : value;
+  }
+  private createPropertyXml(name: string, fullName: string, value: MockValue, depth: number, page = 0, maxData?: number): string {
+    const attributes = `name="${escapeXml(name)}" fullname="${escapeXml(fullName)}" facet=""`;
+    if (value.kind === 'primitive') {
+      return `<property ${attributes} type="${value.type}" size="${Buffer.byteLength(value.value)}" encoding="base64">${toBase64(this.truncateData(value.value, maxData))}</property>`;
+    }
+
+    const maxDepth = parseInt(this.features.get('max_depth') ?? '1', 10);
+    const pageSize = parseInt(this.features.get('max_children') ?? '10000', 10);
+    let content = '';
+    if (depth < maxDepth) {
+      const children = Array.from(value.children.values()).slice(page * pageSize, (page + 1) * pageSize);
+      content = children.map(({ name: childName, value: child }) => {
+        const childFullName = childName.startsWith('[') ? `${fullName}${childName}` : `${fullName}.${childName}`;
+        return this.createPropertyXml(childName, childFullName, child, depth + 1);
+      }).join('');
+    }
+    return `<property ${attributes} type="object" classname="${escapeXml(value.className)}" address="${value.address}" size="0" page="${page}" pagesize="${pageSize}" children="${0 < value.children.size ? 1 : 0}" numchildren="${value.children.size}">${content}</property>`;
+  }
+  private createBreakpointXml(breakpoint: MockBreakpoint): string {
+    return `<breakpoint id="${breakpoint.id}" type="${breakpoint.type}" state="${breakpoint.state}" filename="${escapeXml(breakpoint.fileUri)}" lineno="${breakpoint.line}" temporary="${breakpoint.temporary ? 1 : 0}"/>`;
+  }
+  private getVariables(contextId: number, level: number): Members | undefined {
+    if (contextNames[contextId] === 'Global') {
+      return this.globals;
+    }
+    if (contextNames[contextId] === 'Local') {
+      return this.locals.get(level) ?? new Map();
+    }
+    return undefined;
+  }
+  // Returns `undefined` if the variable is not initialized, or `null` if the member does not exist
+  private resolveValue(contextId: number, level: number, pathArray: string[]): MockValue | undefined | null {
+    const variables = this.getVariables(contextId, level);
+    if (!variables || pathArray.length === 0) {
+      return null;
+    }
+
+    let value = pathArray[0] === '<exception>' ? this.thrownValue : variables.get(pathArray[0].toLowerCase())?.value;
+    for (const [ i, key ] of pathArray.slice(1).entries()) {
+      if (!value || value.kind !== 'object') {
+        return null;
+      }
+      // The prototype chain is not simulated, so every object looks like the end of the chain
+      if (key === '<base>' && i === pathArray.length - 2) {
+        return undefined;
+      }
+      value = value.children.get(key.toLowerCase())?.value;
+      if (!value) {
+        return null;
+      }
+    }
+    return value;
+  }
+  private splitPath(fullName: string): string[] {
+    const result: string[] = [];
+    let part = '', quote = false, bracket = false;
+    for (const char of fullName) {
+      if (quote) {
+        part += char;
+        quote = char !== '"';
+        continue;
+      }
+      if (char === '"') {
+        part += char;
+        quote = true;
+        continue;
+      }
+      if (char === '[' && !bracket) {
+        if (part) {
+          result.push(part);
+        }
+        part = char;
+        bracket = true;
+        continue;
+      }
+      if (char === ']' && bracket) {
+        result.push(`${part}${char}`);
+        part = '';
+        bracket = false;
+        continue;
+      }
+      if (char === '.' && !bracket) {
+        if (part) {
+          result.push(part);
+        }
+        part = '';
+        continue;
+      }
+      part += char;
+    }
+    if (part) {
+      result.push(part);
+    }
+    return result;
+  }
+  private assignMembers(members: Members, variables: Record<string, ScenarioValue>): Members {
+    Object.entries(variables).forEach(([ name, value ]) => {
+      members.set(name.toLowerCase(), { name, value: this.createValue(value) });
+    });
+    return members;
+  }
+  private toFileUri(filePath: string): string {
+    return URI.file(filePath).toString();
+  }
+  private equalsFileUri(a: string, b: string): boolean {
+    return URI.parse(a).fsPath.toLowerCase() === URI.parse(b).fsPath.toLowerCase();
+  }
+  // #endregion util
+}
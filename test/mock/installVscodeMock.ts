@@ -0,0 +1,14 @@
+// Resolve `vscode`, which only exists in the extension host, to the substitute in `./vscode`.
+// Imports are evaluated before the body of the importing module, so this must be a module of its own imported before `src/ahkDebug`.
+import Module from 'module';
+import * as path from 'path';
+
+type ResolveFilename = (request: string, ...rest: unknown[]) => string;
+const moduleWithResolver = Module as unknown as { _resolveFilename: ResolveFilename };
+const originalResolveFilename = moduleWithResolver._resolveFilename;
+moduleWithResolver._resolveFilename = function(this: unknown, request: string, ...rest: unknown[]): string {
+  if (request === 'vscode') {
+    return originalResolveFilename.call(this, path.resolve(__dirname, 'vscode'), ...rest);
+  }
+  return originalResolveFilename.call(this, request, ...rest);
+};
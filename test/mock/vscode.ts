@@ -0,0 +1,63 @@
+// A substitute for the `vscode` module, which only exists in the extension host.
+// Only the APIs the debug adapter reaches in the tests are implemented; documents cannot be opened, as the scenario scripts do not exist on disk.
+export class Position {
+  public readonly line: number;
+  public readonly character: number;
+  constructor(line: number, character: number) {
+    this.line = line;
+    this.character = character;
+  }
+}
+export class Range {
+  public readonly start: Position;
+  public readonly end: Position;
+  constructor(start: Position, end: Position) {
+    this.start = start;
+    this.end = end;
+  }
+}
+export class ThemeColor {
+  public readonly id: string;
+  constructor(id: string) {
+    this.id = id;
+  }
+}
+export class SourceBreakpoint {
+  public readonly location: { uri: { fsPath: string } };
+  constructor(location: { uri: { fsPath: string } }) {
+    this.location = location;
+  }
+}
+export enum CompletionItemKind {
+  Method = 1,
+  Function = 2,
+  Constructor = 3,
+  Field = 4,
+  Variable = 5,
+  Class = 6,
+  Property = 9,
+}
+
+export const workspace = {
+  openTextDocument: async(uri: unknown): Promise<never> => {
+    throw Error(`Cannot open "${String(uri)}" in the tests.`);
+  },
+};
+export const window = {
+  visibleTextEditors: [],
+  createTextEditorDecorationType: (): { dispose: () => void } => ({ dispose: (): void => undefined }),
+  showTextDocument: async(): Promise<never> => {
+    throw Error('Cannot show documents in the tests.');
+  },
+  showErrorMessage: async(): Promise<undefined> => undefined,
+};
+// The breakpoints in the editor. Tests add them directly
+export const debug = {
+  breakpoints: [] as SourceBreakpoint[],
+  removeBreakpoints: (breakpoints: SourceBreakpoint[]): void => {
+    debug.breakpoints = debug.breakpoints.filter((breakpoint) => !breakpoints.includes(breakpoint));
+  },
+};
+export const commands = {
+  executeCommand: async(): Promise<undefined> => undefined,
+};